@@ -0,0 +1,156 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+export const MAX_BATCH_ITEMS = 500;
+
+// Item fields holding file paths; relative paths are resolved against the manifest's directory
+const PATH_FIELDS = ["output_path", "web_project_path"];
+
+// Size arguments; an item that sets any of them replaces the default size entirely
+const SIZE_FIELDS = ["width", "height", "aspect_ratio", "size_preset"];
+
+// One asset in a manifest: generate_image arguments merged over the manifest's defaults
+export interface BatchItem {
+  // From the item's id field, or its 1-based position
+  id: string;
+  args: Record<string, any>;
+}
+
+export interface BatchManifest {
+  items: BatchItem[];
+  concurrency: number;
+}
+
+export type BatchItemStatus = "generated" | "skipped" | "failed";
+
+export interface BatchItemResult {
+  id: string;
+  status: BatchItemStatus;
+  prompt?: string;
+  // Files written, or the existing files an item was skipped for
+  files?: string[];
+  error?: string;
+}
+
+// Parse manifest text as JSON or YAML. YAML is a superset of JSON, so YAML is the fallback for unknown extensions.
+export function parseManifestText(text: string, filename: string = ""): unknown {
+  const ext = path.extname(filename).toLowerCase();
+  try {
+    return ext === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Could not parse manifest${filename ? ` ${filename}` : ""}: ${(error as Error).message}`);
+  }
+}
+
+// "1200x630" or "1200×630" as a size shorthand; anything else names a size preset
+function expandSize(args: Record<string, any>): Record<string, any> {
+  if (args.size === undefined) return args;
+  const { size, ...rest } = args;
+  const match = typeof size === "string" ? /^(\d+)\s*[x×]\s*(\d+)$/i.exec(size.trim()) : null;
+  if (match) return { width: Number(match[1]), height: Number(match[2]), ...rest };
+  return { size_preset: size, ...rest };
+}
+
+// Check a parsed manifest and merge each item over the defaults. The manifest is either a list of items or
+// an object with items, defaults and concurrency. Item arguments are validated later, one item at a time.
+export function buildManifest(raw: unknown, baseDir?: string): BatchManifest {
+  const manifest = (Array.isArray(raw) ? { items: raw } : raw) as Record<string, any> | null;
+  if (!manifest || typeof manifest !== "object" || !Array.isArray(manifest.items)) {
+    throw new Error("Manifest must be a list of items or an object with an items list");
+  }
+  if (manifest.items.length === 0) {
+    throw new Error("Manifest has no items");
+  }
+  if (manifest.items.length > MAX_BATCH_ITEMS) {
+    throw new Error(`Manifest has ${manifest.items.length} items; at most ${MAX_BATCH_ITEMS} are allowed`);
+  }
+  const defaults = manifest.defaults ?? {};
+  if (typeof defaults !== "object" || Array.isArray(defaults)) {
+    throw new Error("Manifest defaults must be an object");
+  }
+
+  const ids = new Set<string>();
+  const items = manifest.items.map((item: unknown, i: number): BatchItem => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`Manifest item ${i + 1} must be an object`);
+    }
+    const { id: itemId, ...itemArgs } = item as Record<string, any>;
+    const id = itemId !== undefined ? String(itemId) : String(i + 1);
+    if (ids.has(id)) {
+      throw new Error(`Duplicate manifest item id: ${id}`);
+    }
+    ids.add(id);
+
+    const base = { ...expandSize(defaults) };
+    const own = expandSize(itemArgs);
+    if (SIZE_FIELDS.some(field => own[field] !== undefined)) {
+      for (const field of SIZE_FIELDS) delete base[field];
+    }
+    const args = { ...base, ...own };
+    if (baseDir) {
+      for (const field of PATH_FIELDS) {
+        if (typeof args[field] === "string" && !path.isAbsolute(args[field])) {
+          // Keep a trailing separator, which marks output_path as a directory
+          args[field] = path.resolve(baseDir, args[field]) + (/[\\/]$/.test(args[field]) ? path.sep : "");
+        }
+      }
+    }
+    return { id, args };
+  });
+
+  return { items, concurrency: resolveBatchConcurrency(manifest.concurrency) };
+}
+
+// Read and check a manifest file
+export async function loadManifest(filepath: string): Promise<BatchManifest> {
+  let text: string;
+  try {
+    text = await fs.readFile(filepath, "utf-8");
+  } catch (error) {
+    throw new Error(`Could not read manifest ${filepath}: ${(error as Error).message}`);
+  }
+  return buildManifest(parseManifestText(text, filepath), path.dirname(filepath));
+}
+
+// Concurrency from a tool argument or manifest, within 1 and MAX_BATCH_CONCURRENCY
+export function resolveBatchConcurrency(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_BATCH_CONCURRENCY;
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_BATCH_CONCURRENCY) {
+    throw new Error(`concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}`);
+  }
+  return value as number;
+}
+
+// Run a task for every item with at most `limit` running at once. Results keep the items' order.
+export async function runWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// "3 generated, 1 skipped, 1 failed"
+export function summarizeBatch(results: BatchItemResult[]): string {
+  const count = (status: BatchItemStatus) => results.filter(r => r.status === status).length;
+  return `${count("generated")} generated, ${count("skipped")} skipped, ${count("failed")} failed`;
+}
+
+// Per-item report of a finished batch
+export function formatBatchReport(results: BatchItemResult[]): string {
+  const icons: Record<BatchItemStatus, string> = { generated: "✅", skipped: "⏭️", failed: "❌" };
+  const lines = results.map(result => {
+    const label = `${icons[result.status]} ${result.id}${result.prompt ? ` ("${result.prompt}")` : ""}: ${result.status}`;
+    const details = [...(result.files || []), ...(result.error ? [result.error] : [])].map(line => `   ${line}`);
+    return [label, ...details].join("\n");
+  });
+  return `Batch finished: ${summarizeBatch(results)}\n\n${lines.join("\n")}`;
+}
@@ -0,0 +1,95 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createHash } from "crypto";
+import type { GenerationSettings } from "./models.js";
+
+// File name of the metadata catalog inside the storage directory
+export const CATALOG_FILENAME = "catalog.json";
+
+// Metadata recorded for every image written by the server
+export interface ImageRecord {
+  // Absolute local path, or a storage backend URI such as s3://bucket/key
+  path: string;
+  filename: string;
+  prompt: string;
+  model: string;
+  format: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+  generationId?: string;
+  sourceUrl?: string;
+  contentHash: string;
+  createdAt: string;
+  // Optional generation parameters, so the image can be reproduced
+  settings?: GenerationSettings;
+  // Style preset the image was generated with, and the prompt it produced
+  style?: string;
+  modelPrompt?: string;
+  // Hash of everything that determines the output (prompt, model, format, size, parameters, destination);
+  // batches skip items whose files exist with the same hash
+  promptHash?: string;
+}
+
+// Details of a generation recorded alongside the prompt and model
+export type GenerationDetails = Pick<ImageRecord, "settings" | "style" | "modelPrompt" | "promptHash">;
+
+interface CatalogFile {
+  version: number;
+  images: ImageRecord[];
+}
+
+// Serialize catalog writes so concurrent saves don't clobber each other
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+// SHA-256 of the written file content
+export function hashContent(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Read all catalog records, returning an empty list if the catalog doesn't exist yet
+export async function readCatalog(storageDir: string): Promise<ImageRecord[]> {
+  try {
+    const raw = await fs.readFile(path.join(storageDir, CATALOG_FILENAME), "utf-8");
+    const catalog = JSON.parse(raw) as CatalogFile;
+    return Array.isArray(catalog.images) ? catalog.images : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    if (error instanceof SyntaxError) {
+      console.warn(`Ignoring corrupt image catalog in ${storageDir}: ${error.message}`);
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Add or replace the record for a file path
+export function recordImage(storageDir: string, record: ImageRecord): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const images = (await readCatalog(storageDir)).filter(r => r.path !== record.path);
+    images.push(record);
+
+    // Write atomically so a crash mid-write never leaves a truncated catalog
+    const catalogPath = path.join(storageDir, CATALOG_FILENAME);
+    const tempPath = `${catalogPath}.${process.pid}.tmp`;
+    await fs.mkdir(storageDir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify({ version: 1, images } as CatalogFile, null, 2));
+    await fs.rename(tempPath, catalogPath);
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+// Normalize a record location: URIs are kept as-is, file paths are made absolute
+export function normalizeLocation(location: string): string {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(location) ? location : path.resolve(location);
+}
+
+// Find the record for a location (absolute path or storage URI), or for a bare filename inside the storage directory
+export async function findImageRecord(storageDir: string, location: string): Promise<ImageRecord | undefined> {
+  const target = normalizeLocation(path.isAbsolute(location) || location.includes("://") ? location : path.join(storageDir, location));
+  const images = await readCatalog(storageDir);
+  return images.find(r => normalizeLocation(r.path) === target);
+}
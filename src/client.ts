@@ -0,0 +1,32 @@
+import { createRequire } from "module";
+
+// EverArt REST API; the SDK is hard-wired to it
+export const EVERART_API_URL = "https://api.everart.ai/v1";
+
+export interface EverArtImageUpload {
+  upload_token: string;
+  upload_url: string;
+  file_url: string;
+  id: string;
+}
+
+// The parts of the EverArt SDK the server uses, so the mock backend can stand in for it
+export interface EverArtClient {
+  v1: {
+    generations: {
+      create: (model: string, prompt: string, mode: "txt2img" | "img2img", options: any) => Promise<any[]>;
+      fetch: (generationId: string) => Promise<any>;
+    },
+    images: {
+      uploads: (images: { filename: string, content_type: string, id?: string }[]) => Promise<EverArtImageUpload[]>;
+    }
+  }
+}
+
+// Create an SDK client for the real API
+export function createEverArtClient(apiKey: string): EverArtClient {
+  // The SDK is CommonJS only
+  const require = createRequire(import.meta.url);
+  const EverArt = require("everart");
+  return new EverArt.default(apiKey);
+}
@@ -0,0 +1,198 @@
+import * as path from "path";
+import { optimize } from "svgo";
+
+// Component formats an SVG can be exported as
+export const SVG_COMPONENT_FRAMEWORKS = ["react", "vue"] as const;
+
+export type SvgComponentFramework = typeof SVG_COMPONENT_FRAMEWORKS[number];
+
+export interface SvgComponentOptions {
+  framework: SvgComponentFramework;
+  // Write only the component, not the .svg file
+  replaceSvg?: boolean;
+  // Replace fill and stroke colours with currentColor so the icon follows the surrounding text colour
+  currentColor?: boolean;
+}
+
+export interface SvgComponent {
+  name: string;
+  filename: string;
+  code: string;
+}
+
+// Paint values left alone when recolouring: no paint, gradients/patterns and colours that are already inherited
+const KEEP_PAINT = /^(none|currentColor|inherit|transparent|url\(.*\))$/i;
+
+// PascalCase component name from a file name, e.g. "mountain-logo-3f2a.svg" -> "MountainLogo3f2a"
+export function componentName(filepath: string): string {
+  const words = path.basename(filepath, path.extname(filepath)).match(/[\p{L}\p{N}]+/gu) || [];
+  const name = words.map(word => word[0].toUpperCase() + word.slice(1)).join("");
+  if (!name) return "GeneratedImage";
+  return /^\d/.test(name) ? `Image${name}` : name;
+}
+
+// JSX spelling of an SVG attribute: class -> className, stroke-width -> strokeWidth, xlink:href -> xlinkHref
+function jsxAttributeName(name: string): string {
+  if (name === "class") return "className";
+  if (name.startsWith("data-") || name.startsWith("aria-")) return name;
+  return name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+// Split an SVG into its root attributes and its children, cleaned up for embedding in a component. The viewBox is
+// kept (and added from width/height when missing) so the component scales with the size it's given. Ids are prefixed
+// with the component name: cleanupIds shortens them to "a", "b", ..., which would clash between components on a page.
+function prepareSvg(svg: string, options: { jsx: boolean, idPrefix: string, currentColor?: boolean }): { attributes: Record<string, string>, body: string } {
+  const cleaned = optimize(svg, {
+    multipass: true,
+    plugins: [
+      {
+        name: "preset-default",
+        params: { overrides: { removeViewBox: false } },
+      },
+      "removeDimensions",
+      "convertStyleToAttrs",
+    ],
+  }).data;
+
+  // Converted in a separate single pass: the markup below is no longer plain SVG and can't be re-parsed
+  let attributes: Record<string, string> = {};
+  const { data } = optimize(cleaned, {
+    plugins: [
+      { name: "prefixIds", params: { prefix: options.idPrefix, delim: "-" } },
+      "removeXMLNS",
+      {
+        name: "componentMarkup",
+        fn: () => ({
+          element: {
+            enter: (node, parentNode) => {
+              // Leftover <style> elements can't be embedded in JSX and would leak into the page in Vue
+              if (node.name === "style") {
+                parentNode.children = parentNode.children.filter(child => child !== node);
+                return;
+              }
+              const converted: Record<string, string> = {};
+              for (const [name, value] of Object.entries(node.attributes)) {
+                // Inline style strings aren't valid JSX; whatever convertStyleToAttrs couldn't convert is dropped
+                if (name === "style" && options.jsx) continue;
+                const recolor = options.currentColor && ["fill", "stroke", "stop-color"].includes(name) && !KEEP_PAINT.test(value.trim());
+                converted[options.jsx ? jsxAttributeName(name) : name] = recolor ? "currentColor" : value;
+              }
+              node.attributes = converted;
+
+              // The root's attributes are rendered by the component itself
+              if (node.name === "svg" && parentNode.type === "root") {
+                attributes = node.attributes;
+                node.attributes = {};
+              }
+            },
+          },
+        }),
+      },
+    ],
+    js2svg: {
+      pretty: true,
+      indent: 2,
+      // Numeric entities work in XML, JSX and Vue templates, and keep braces from starting expressions
+      regEntities: /[&<>{}]/g,
+      encodeEntity: (char: string) => `&#${char.codePointAt(0)};`,
+    },
+  });
+
+  // Unpainted shapes default to black; with currentColor they should inherit instead
+  if (options.currentColor && !attributes.fill) {
+    attributes.fill = "currentColor";
+  }
+
+  const lines = data.trim().split("\n");
+  const body = lines.length > 2 ? lines.slice(1, -1).map(line => line.replace(/^ {2}/, "")).join("\n") : "";
+  return { attributes, body };
+}
+
+// Static attributes of the root <svg>, one per line, escaped for a double-quoted attribute value
+function renderAttributes(attributes: Record<string, string>, spaces: number): string[] {
+  return Object.entries({ xmlns: "http://www.w3.org/2000/svg", ...attributes })
+    .map(([key, value]) => `${" ".repeat(spaces)}${key}="${value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`);
+}
+
+function indent(text: string, spaces: number): string {
+  const prefix = " ".repeat(spaces);
+  return text.split("\n").map(line => line ? prefix + line : line).join("\n");
+}
+
+// Typed React function component
+function reactComponent(name: string, svg: string, currentColor?: boolean): string {
+  const { attributes, body } = prepareSvg(svg, { jsx: true, idPrefix: name, currentColor });
+  return [
+    `import type { SVGProps } from "react";`,
+    ``,
+    `export interface ${name}Props extends SVGProps<SVGSVGElement> {`,
+    `  /** Width and height, in pixels or any CSS length */`,
+    `  size?: number | string;`,
+    `  /** Accessible name; without it the icon is hidden from assistive technology */`,
+    `  title?: string;`,
+    ...(currentColor ? [`  /** Icon colour; defaults to the surrounding text colour */`, `  color?: string;`] : []),
+    `}`,
+    ``,
+    `export default function ${name}({ size = "1em", title, className, ...props }: ${name}Props) {`,
+    `  return (`,
+    `    <svg`,
+    ...renderAttributes(attributes, 6),
+    `      width={size}`,
+    `      height={size}`,
+    `      className={className}`,
+    `      role={title ? "img" : undefined}`,
+    `      aria-hidden={title ? undefined : true}`,
+    `      {...props}`,
+    `    >`,
+    `      {title ? <title>{title}</title> : null}`,
+    ...(body ? [indent(body, 6)] : []),
+    `    </svg>`,
+    `  );`,
+    `}`,
+    ``,
+  ].join("\n");
+}
+
+// Vue single-file component; class and other attributes fall through to the <svg>
+function vueComponent(name: string, svg: string, currentColor?: boolean): string {
+  const { attributes, body } = prepareSvg(svg, { jsx: false, idPrefix: name, currentColor });
+  return [
+    `<script setup lang="ts">`,
+    `withDefaults(defineProps<{`,
+    `  /** Width and height, in pixels or any CSS length */`,
+    `  size?: number | string;`,
+    `  /** Accessible name; without it the icon is hidden from assistive technology */`,
+    `  title?: string;`,
+    ...(currentColor ? [`  /** Icon colour; defaults to the surrounding text colour */`, `  color?: string;`] : []),
+    `}>(), { size: "1em" });`,
+    `</script>`,
+    ``,
+    `<template>`,
+    `  <svg`,
+    ...renderAttributes(attributes, 4),
+    `    :width="size"`,
+    `    :height="size"`,
+    ...(currentColor ? [`    :color="color"`] : []),
+    `    :role="title ? 'img' : undefined"`,
+    `    :aria-hidden="title ? undefined : 'true'"`,
+    `  >`,
+    `    <title v-if="title">{{ title }}</title>`,
+    ...(body ? [indent(body, 4)] : []),
+    `  </svg>`,
+    `</template>`,
+    ``,
+  ].join("\n");
+}
+
+// Build a component that renders the SVG inline, named after the SVG's file name
+export function buildSvgComponent(svg: string, filename: string, framework: SvgComponentFramework, currentColor?: boolean): SvgComponent {
+  const name = componentName(filename);
+  switch (framework) {
+    case "react":
+      return { name, filename: `${name}.tsx`, code: reactComponent(name, svg, currentColor) };
+    case "vue":
+      return { name, filename: `${name}.vue`, code: vueComponent(name, svg, currentColor) };
+    default:
+      throw new Error(`Unsupported component framework: ${framework}. Supported frameworks are: ${SVG_COMPONENT_FRAMEWORKS.join(", ")}`);
+  }
+}
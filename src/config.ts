@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// A named image library: a local directory or an S3-compatible bucket
+export interface LibraryConfig {
+  // Local directory; relative paths are resolved against the config file's directory
+  path?: string;
+  storage?: "local" | "s3";
+  bucket?: string;
+  prefix?: string;
+  region?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicUrl?: string;
+  description?: string;
+}
+
+// A model added to the registry or a change to a built-in one; see models.ts for the fields
+export interface ModelConfig {
+  name?: string;
+  description?: string;
+  formats?: string[];
+  minSide?: number;
+  maxSide?: number;
+  options?: Record<string, unknown>;
+  cost?: number;
+  img2img?: boolean;
+  // Experimental: undocumented generation parameters to send to the model
+  parameters?: string[];
+}
+
+// A named style preset; see styles.ts
+export interface StyleConfig {
+  description?: string;
+  // Prompt fragments added before and after the prompt of every generation using the style
+  promptPrefix?: string;
+  promptSuffix?: string;
+  negativePrompt?: string;
+  // Model and format every generation using the style is pinned to
+  model?: string;
+  format?: string;
+  seed?: number;
+  guidance?: number;
+  steps?: number;
+}
+
+// Retry, timeout and polling settings for EverArt API requests and image downloads; see retry.ts for the defaults
+export interface RetryConfig {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  requestTimeoutMs?: number;
+  deadlineMs?: number;
+  pollIntervalMs?: number;
+  pollTimeoutMs?: number;
+}
+
+// Contents of the server config file
+export interface ServerConfig {
+  // Root directory for the default library, job state and metadata of remote libraries
+  storageDir?: string;
+  // Library used when a tool call doesn't name one (default: "default")
+  defaultLibrary?: string;
+  libraries?: Record<string, LibraryConfig>;
+  // Directories output_path, web_project_path and source image paths must be inside (default: the home directory)
+  writableRoots?: string[];
+  // What to do when an output file already exists: "fail", "rename" or "replace" (default: "rename")
+  overwrite?: string;
+  // Filename template for generated images, e.g. "{slug}-{hash}" (see filenames.ts for the tokens)
+  filenameTemplate?: string;
+  // svgo profile for SVG output: "none", "safe", "aggressive" or "icon" (default: "safe")
+  svgProfile?: string;
+  // Models added to or overriding the built-in registry, keyed by EverArt model ID
+  models?: Record<string, ModelConfig>;
+  // Model used when a tool call doesn't name one (default: "5000")
+  defaultModel?: string;
+  // Named style presets for generate_image, e.g. "brand-flat-illustration"
+  styles?: Record<string, StyleConfig>;
+  retry?: RetryConfig;
+}
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  // Path the config was read from, if a file was found
+  path?: string;
+}
+
+// Expand a leading ~ and resolve relative paths against a base directory
+export function resolveConfigPath(value: string, baseDir: string): string {
+  const expanded = value === "~" || value.startsWith("~/") ? path.join(os.homedir(), value.slice(1)) : value;
+  return path.resolve(baseDir, expanded);
+}
+
+// Per-user config directory, following the XDG convention
+function userConfigDir(env: NodeJS.ProcessEnv): string {
+  return env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+}
+
+// Config file location: EVERART_CONFIG, otherwise ~/.config/everart-forge-mcp/config.json
+export function configFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.EVERART_CONFIG
+    ? resolveConfigPath(env.EVERART_CONFIG, process.cwd())
+    : path.join(userConfigDir(env), "everart-forge-mcp", "config.json");
+}
+
+// Read the config file. A missing default config is not an error; a missing EVERART_CONFIG file is.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const file = configFilePath(env);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT" && !env.EVERART_CONFIG) {
+      return { config: {} };
+    }
+    throw new Error(`Unable to read config file ${file}: ${(error as Error).message}`);
+  }
+
+  let config: ServerConfig;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid JSON in config file ${file}: ${(error as Error).message}`);
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`Config file ${file} must contain a JSON object`);
+  }
+
+  // Make paths absolute so the rest of the server doesn't depend on where the config lives
+  const baseDir = path.dirname(file);
+  if (config.storageDir) {
+    config.storageDir = resolveConfigPath(config.storageDir, baseDir);
+  }
+  for (const library of Object.values(config.libraries || {})) {
+    if (library.path) library.path = resolveConfigPath(library.path, baseDir);
+  }
+  if (config.writableRoots !== undefined) {
+    if (!Array.isArray(config.writableRoots) || !config.writableRoots.every(root => typeof root === "string")) {
+      throw new Error(`writableRoots in ${file} must be an array of directory paths`);
+    }
+    config.writableRoots = config.writableRoots.map(root => resolveConfigPath(root, baseDir));
+  }
+
+  return { config, path: file };
+}
+
+// Storage root: EVERART_STORAGE_DIR, then the config file, then the legacy directory inside the package if it
+// already holds images, otherwise a per-user data directory
+export function resolveStorageDir(config: ServerConfig, legacyDir: string, env: NodeJS.ProcessEnv = process.env): string {
+  if (env.EVERART_STORAGE_DIR) return resolveConfigPath(env.EVERART_STORAGE_DIR, process.cwd());
+  if (config.storageDir) return config.storageDir;
+  if (fs.existsSync(legacyDir)) return legacyDir;
+  const dataHome = env.XDG_DATA_HOME || path.join(os.homedir(), ".local", "share");
+  return path.join(dataHome, "everart-forge-mcp", "images");
+}
+
+// Whole-number setting from an environment variable, or the default when it is unset
+export function integerFromEnv(name: string, defaultValue: number, minimum: number, env: NodeJS.ProcessEnv = process.env): number {
+  const value = env[name];
+  if (value === undefined || value === "") return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum) {
+    throw new Error(`${name} must be a whole number of ${minimum} or more`);
+  }
+  return parsed;
+}
@@ -0,0 +1,238 @@
+import sharp from "sharp";
+
+// Formats convert_image can write
+export const CONVERT_FORMATS = ["png", "jpg", "jpeg", "webp", "avif", "gif"] as const;
+
+export type ConvertFormat = typeof CONVERT_FORMATS[number];
+
+// How the image is fitted when both width and height are given
+export const RESIZE_FITS = ["cover", "contain", "inside", "fill"] as const;
+
+export type ResizeFit = typeof RESIZE_FITS[number];
+
+// Encoder quality used when none is given; AVIF looks as good at much lower settings
+export const DEFAULT_QUALITY: Record<ConvertFormat, number> = {
+  png: 90,
+  jpg: 90,
+  jpeg: 90,
+  webp: 90,
+  avif: 60,
+  gif: 90,
+};
+
+// Region of the source image, in source pixels
+export interface CropRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ConvertOptions {
+  format: ConvertFormat;
+  // 1-100; PNG and GIF use it to pick the palette size
+  quality?: number;
+  width?: number;
+  height?: number;
+  fit?: ResizeFit;
+  // Applied before resizing
+  crop?: CropRegion;
+  // Degrees clockwise, applied last
+  rotate?: number;
+  // Colour made transparent, as #rgb or #rrggbb, or "auto" for the colour of the top-left pixel
+  removeBackground?: string;
+  // How far (0-255 per channel) a colour may be from the key and still be removed
+  tolerance?: number;
+  // Keep EXIF, ICC and XMP metadata, which is stripped by default
+  keepMetadata?: boolean;
+  // Fills transparent areas in JPEG output (default: white)
+  background?: string;
+}
+
+export interface ConvertResult {
+  data: Buffer;
+  format: ConvertFormat;
+  width: number;
+  height: number;
+  // Set when metadata was requested but couldn't be carried through raw pixel processing
+  metadataDropped?: boolean;
+}
+
+export const DEFAULT_TOLERANCE = 16;
+
+// Largest side convert_image will produce
+const MAX_OUTPUT_SIDE = 8192;
+
+// Density SVGs are rasterized at by default: one pixel per SVG unit
+const SVG_BASE_DENSITY = 72;
+const MAX_SVG_DENSITY = 100000;
+
+// #rgb or #rrggbb
+function parseHexColor(value: string): { r: number, g: number, b: number } | undefined {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return undefined;
+  const hex = match[1].length === 3 ? match[1].split("").map(c => c + c).join("") : match[1];
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16),
+  };
+}
+
+function isPositiveInteger(value: unknown, max: number = MAX_OUTPUT_SIDE): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 && value <= max;
+}
+
+// Check conversion options before any image is read
+export function validateConvertOptions(options: ConvertOptions): void {
+  if (!CONVERT_FORMATS.includes(options.format)) {
+    throw new Error(`Unsupported format: ${options.format}. Supported formats are: ${CONVERT_FORMATS.join(", ")}`);
+  }
+  if (options.quality !== undefined && !(Number.isInteger(options.quality) && options.quality >= 1 && options.quality <= 100)) {
+    throw new Error("quality must be an integer between 1 and 100");
+  }
+  for (const side of ["width", "height"] as const) {
+    if (options[side] !== undefined && !isPositiveInteger(options[side])) {
+      throw new Error(`${side} must be an integer between 1 and ${MAX_OUTPUT_SIDE}`);
+    }
+  }
+  if (options.fit !== undefined && !RESIZE_FITS.includes(options.fit)) {
+    throw new Error(`Invalid fit: ${options.fit}. Supported values are: ${RESIZE_FITS.join(", ")}`);
+  }
+  if (options.crop !== undefined) {
+    const { left, top, width, height } = options.crop;
+    if (![left, top].every(v => Number.isInteger(v) && v >= 0) || !isPositiveInteger(width, Infinity) || !isPositiveInteger(height, Infinity)) {
+      throw new Error("crop needs integer left and top of 0 or more, and a positive integer width and height");
+    }
+  }
+  if (options.rotate !== undefined && (typeof options.rotate !== "number" || !Number.isFinite(options.rotate))) {
+    throw new Error("rotate must be a number of degrees");
+  }
+  if (options.removeBackground !== undefined) {
+    if (options.removeBackground !== "auto" && !parseHexColor(options.removeBackground)) {
+      throw new Error(`Invalid remove_background colour: ${options.removeBackground}. Use #rgb, #rrggbb or 'auto'.`);
+    }
+    if (options.format === "jpg" || options.format === "jpeg") {
+      throw new Error("JPEG has no transparency; use png, webp, avif or gif to remove a background");
+    }
+  }
+  if (options.tolerance !== undefined && !(typeof options.tolerance === "number" && options.tolerance >= 0 && options.tolerance <= 255)) {
+    throw new Error("tolerance must be between 0 and 255");
+  }
+  if (options.background !== undefined && !parseHexColor(options.background)) {
+    throw new Error(`Invalid background colour: ${options.background}. Use #rgb or #rrggbb.`);
+  }
+}
+
+// Apply an encoder with the format's quality setting
+export function encodeImage(image: sharp.Sharp, format: string, quality?: number): sharp.Sharp {
+  switch (format) {
+    case "avif":
+      return image.avif({ quality: quality ?? DEFAULT_QUALITY.avif });
+    case "webp":
+      return image.webp({ quality: quality ?? DEFAULT_QUALITY.webp });
+    case "png":
+      return image.png({ quality: quality ?? DEFAULT_QUALITY.png });
+    case "jpg":
+    case "jpeg":
+      return image.jpeg({ quality: quality ?? DEFAULT_QUALITY.jpeg });
+    case "gif":
+      // GIF has at most 256 colours; lower quality uses fewer
+      return image.gif({ colours: Math.max(2, Math.round(256 * (quality ?? DEFAULT_QUALITY.gif) / 100)) });
+    default:
+      throw new Error(`Unsupported format: ${format}`);
+  }
+}
+
+// Make pixels close to the key colour transparent. Pixels just outside the tolerance fade out, which keeps
+// anti-aliased edges from leaving a halo of the old background.
+function removeColorKey(pixels: Buffer, key: { r: number, g: number, b: number }, tolerance: number): void {
+  const feather = Math.max(1, tolerance / 2);
+  for (let i = 0; i < pixels.length; i += 4) {
+    const distance = Math.max(
+      Math.abs(pixels[i] - key.r),
+      Math.abs(pixels[i + 1] - key.g),
+      Math.abs(pixels[i + 2] - key.b),
+    );
+    if (distance <= tolerance) {
+      pixels[i + 3] = 0;
+    } else if (distance <= tolerance + feather) {
+      pixels[i + 3] = Math.round(pixels[i + 3] * (distance - tolerance) / feather);
+    }
+  }
+}
+
+// Convert and post-process an image: orient, crop, resize, remove a background colour, rotate and encode.
+// SVGs are rasterized at whatever density the target size needs, so they stay sharp when enlarged.
+export async function convertImage(content: Buffer, options: ConvertOptions): Promise<ConvertResult> {
+  const input = await sharp(content).metadata();
+  if (!input.width || !input.height) {
+    throw new Error("Could not read the image dimensions");
+  }
+
+  let scale = 1;
+  if (input.format === "svg" && (options.width || options.height)) {
+    const sourceWidth = options.crop?.width ?? input.width;
+    const sourceHeight = options.crop?.height ?? input.height;
+    scale = Math.max(
+      options.width ? options.width / sourceWidth : 0,
+      options.height ? options.height / sourceHeight : 0,
+    );
+  }
+  const scaled = (value: number) => Math.round(value * scale);
+
+  // Orientation, crop and resize run in one pipeline; crop coordinates refer to the upright source
+  let image = sharp(content, scale !== 1 ? { density: Math.min(SVG_BASE_DENSITY * scale, MAX_SVG_DENSITY) } : {}).rotate();
+  if (options.crop) {
+    const { left, top, width, height } = options.crop;
+    const sourceWidth = input.orientation && input.orientation >= 5 ? input.height : input.width;
+    const sourceHeight = input.orientation && input.orientation >= 5 ? input.width : input.height;
+    if (left + width > sourceWidth || top + height > sourceHeight) {
+      throw new Error(`Crop region ${width}×${height} at ${left},${top} is outside the ${sourceWidth}×${sourceHeight} image`);
+    }
+    image = image.extract({ left: scaled(left), top: scaled(top), width: scaled(width), height: scaled(height) });
+  }
+  if (options.width || options.height) {
+    const fit = options.fit || "cover";
+    image = image.resize(options.width, options.height, {
+      fit,
+      // Cover crops around the most interesting region, contain pads with transparency
+      position: fit === "cover" ? sharp.strategy.attention : "centre",
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    });
+  }
+
+  // Rotation by an arbitrary angle and colour keys need a second pass over the pixels
+  const rotate = options.rotate ? ((options.rotate % 360) + 360) % 360 : 0;
+  const rawPass = rotate !== 0 || options.removeBackground !== undefined;
+  if (rawPass) {
+    const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    // Keyed before rotating, so "auto" samples the image's own corner rather than the rotation padding
+    if (options.removeBackground !== undefined) {
+      const key = options.removeBackground === "auto"
+        ? { r: data[0], g: data[1], b: data[2] }
+        : parseHexColor(options.removeBackground)!;
+      removeColorKey(data, key, options.tolerance ?? DEFAULT_TOLERANCE);
+    }
+    image = sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } });
+    if (rotate !== 0) {
+      image = image.rotate(rotate, { background: { r: 0, g: 0, b: 0, alpha: 0 } });
+    }
+  }
+
+  if (options.format === "jpg" || options.format === "jpeg") {
+    image = image.flatten({ background: options.background || "#ffffff" });
+  }
+  if (options.keepMetadata && !rawPass) {
+    image = image.keepMetadata();
+  }
+
+  const { data, info } = await encodeImage(image, options.format, options.quality).toBuffer({ resolveWithObject: true });
+  return {
+    data,
+    format: options.format,
+    width: info.width,
+    height: info.height,
+    metadataDropped: options.keepMetadata && rawPass ? true : undefined,
+  };
+}
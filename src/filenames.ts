@@ -0,0 +1,98 @@
+// Tokens available in filename templates
+export const FILENAME_TOKENS = ["slug", "model", "date", "timestamp", "hash", "index", "width", "height", "id"] as const;
+
+export type FilenameToken = typeof FILENAME_TOKENS[number];
+
+// Values for a rendered filename; undefined tokens are dropped along with one adjacent separator
+export type FilenameValues = Partial<Record<FilenameToken, string | number>>;
+
+// Default templates: timestamped names in libraries, stable content-addressed names in projects and directories
+export const DEFAULT_STORAGE_FILENAME_TEMPLATE = "{timestamp}_{model}_{slug}";
+export const DEFAULT_PROJECT_FILENAME_TEMPLATE = "{slug}-{hash}";
+
+// Longest slug generated from a prompt, in characters
+const MAX_SLUG_LENGTH = 50;
+
+// Characters that can't appear in file names on common filesystems
+const INVALID_FILENAME_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f]/;
+
+// Latin transliterations for letters without an ASCII decomposition
+const TRANSLITERATIONS: Record<string, string> = {
+  // Latin
+  "ß": "ss", "æ": "ae", "œ": "oe", "ø": "o", "đ": "d", "ð": "d", "þ": "th", "ł": "l", "ı": "i",
+  // Cyrillic
+  "а": "a", "б": "b", "в": "v", "г": "g", "д": "d", "е": "e", "ё": "yo", "ж": "zh", "з": "z", "и": "i",
+  "й": "y", "к": "k", "л": "l", "м": "m", "н": "n", "о": "o", "п": "p", "р": "r", "с": "s", "т": "t",
+  "у": "u", "ф": "f", "х": "kh", "ц": "ts", "ч": "ch", "ш": "sh", "щ": "shch", "ъ": "", "ы": "y", "ь": "",
+  "э": "e", "ю": "yu", "я": "ya", "і": "i", "ї": "yi", "є": "ye", "ґ": "g",
+  // Greek
+  "α": "a", "β": "v", "γ": "g", "δ": "d", "ε": "e", "ζ": "z", "η": "i", "θ": "th", "ι": "i", "κ": "k",
+  "λ": "l", "μ": "m", "ν": "n", "ξ": "x", "ο": "o", "π": "p", "ρ": "r", "σ": "s", "ς": "s", "τ": "t",
+  "υ": "y", "φ": "f", "χ": "ch", "ψ": "ps", "ω": "o",
+};
+
+// Turn a prompt into a lowercase, hyphen-separated file name stem. Accented Latin, Cyrillic and Greek letters are
+// transliterated; letters of other scripts (e.g. CJK) are kept as-is.
+export function slugify(text: string, maxLength: number = MAX_SLUG_LENGTH): string {
+  let transliterated = "";
+  for (const char of text.normalize("NFC").toLowerCase()) {
+    const base = char.normalize("NFKD").replace(/\p{M}/gu, "");
+    if (TRANSLITERATIONS[char] !== undefined) {
+      transliterated += TRANSLITERATIONS[char];
+    } else if (/^[\x00-\x7f]*$/.test(base)) {
+      transliterated += base.toLowerCase();
+    } else {
+      transliterated += TRANSLITERATIONS[base] ?? char;
+    }
+  }
+
+  // Keep whole words while they fit
+  let slug = "";
+  for (const word of transliterated.split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+    const next = slug ? `${slug}-${word}` : word;
+    if ([...next].length > maxLength) {
+      if (!slug) slug = [...word].slice(0, maxLength).join("");
+      break;
+    }
+    slug = next;
+  }
+  return slug || "image";
+}
+
+// Check a template only uses known tokens and renders to a single file name
+export function validateFilenameTemplate(template: string): void {
+  if (!template.trim()) {
+    throw new Error("Filename template must not be empty");
+  }
+  for (const [, token] of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!FILENAME_TOKENS.includes(token as FilenameToken)) {
+      throw new Error(`Unknown filename template token {${token}}. Supported tokens: ${FILENAME_TOKENS.map(t => `{${t}}`).join(", ")}`);
+    }
+  }
+  const literal = template.replace(/\{[^}]*\}/g, "");
+  if (INVALID_FILENAME_CHARACTERS.test(literal) || /[{}]/.test(literal) || literal.includes("..")) {
+    throw new Error(`Filename template must be a single file name without path separators or reserved characters: ${template}`);
+  }
+}
+
+// Render a template into a file name stem (without extension). Multi-image generations whose template has no
+// {index} get "-<index>" appended so the images don't share a name.
+export function renderFilenameTemplate(template: string, values: FilenameValues): string {
+  let rendered = template;
+  for (const token of FILENAME_TOKENS) {
+    const value = values[token];
+    if (value === undefined || value === "") {
+      // Drop the token together with the separator that joined it to its neighbour
+      rendered = rendered
+        .replace(new RegExp(`^\\{${token}\\}[-_. ]?`), "")
+        .replace(new RegExp(`[-_. ]?\\{${token}\\}`, "g"), "");
+    } else {
+      rendered = rendered.split(`{${token}}`).join(String(value));
+    }
+  }
+  if (values.index !== undefined && !template.includes("{index}")) {
+    rendered += `-${values.index}`;
+  }
+  rendered = rendered.replace(/^[-_. ]+|[-_. ]+$/g, "");
+  return rendered || "image";
+}
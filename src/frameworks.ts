@@ -0,0 +1,203 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+// A directory a framework serves static files from, relative to the project root
+interface PublicDirLayout {
+  dir: string;
+  // URL path the directory is served under
+  url: string;
+  // Default subdirectory for generated images
+  assetDir: string;
+}
+
+// How a web framework lays out static assets
+export interface WebFramework {
+  id: string;
+  name: string;
+  // Candidate public directories; the first one that exists in the project wins, otherwise the first is used
+  publicDirs: PublicDirLayout[];
+  // Source directory, relative to the project root, whose images the bundler can import (e.g. Vite's src/)
+  sourceDir?: string;
+}
+
+// Where a web project serves its static files from
+export interface WebProjectLayout {
+  framework: WebFramework;
+  // How the framework was identified, e.g. "dependency 'astro' in package.json"
+  detectedFrom: string;
+  // Absolute path of the served directory
+  publicDir: string;
+  publicUrl: string;
+  assetDir: string;
+  // Absolute path of the framework's importable source directory, if it has one
+  sourceDir?: string;
+}
+
+// Raised when project_type names a framework this server doesn't know
+export class UnknownFrameworkError extends Error {
+  constructor(projectType: string) {
+    super(`Unknown project_type: ${projectType}. Supported types are: auto, ${WEB_FRAMEWORKS.map(f => f.id).join(", ")}`);
+    this.name = "UnknownFrameworkError";
+  }
+}
+
+const PUBLIC: PublicDirLayout = { dir: "public", url: "/", assetDir: "images" };
+const STATIC: PublicDirLayout = { dir: "static", url: "/", assetDir: "images" };
+const ROOT: PublicDirLayout = { dir: ".", url: "/", assetDir: "assets/images" };
+
+export const WEB_FRAMEWORKS: WebFramework[] = [
+  { id: "next", name: "Next.js", publicDirs: [PUBLIC] },
+  // Nuxt 2 serves static/, Nuxt 3 serves public/
+  { id: "nuxt", name: "Nuxt", publicDirs: [PUBLIC, STATIC] },
+  { id: "astro", name: "Astro", publicDirs: [PUBLIC] },
+  { id: "sveltekit", name: "SvelteKit", publicDirs: [STATIC] },
+  { id: "remix", name: "Remix", publicDirs: [PUBLIC] },
+  { id: "gatsby", name: "Gatsby", publicDirs: [STATIC] },
+  // Angular 17+ serves public/, older projects serve src/assets/ under /assets
+  { id: "angular", name: "Angular", publicDirs: [PUBLIC, { dir: "src/assets", url: "/assets/", assetDir: "images" }] },
+  { id: "react", name: "Create React App", publicDirs: [PUBLIC] },
+  { id: "vue", name: "Vue CLI", publicDirs: [PUBLIC] },
+  { id: "vite", name: "Vite", publicDirs: [PUBLIC], sourceDir: "src" },
+  { id: "hugo", name: "Hugo", publicDirs: [STATIC] },
+  // Eleventy copies public/ to the site root by convention; otherwise assets are passed through from the project
+  { id: "eleventy", name: "Eleventy", publicDirs: [PUBLIC, ROOT] },
+  { id: "jekyll", name: "Jekyll", publicDirs: [ROOT] },
+  // Plain sites: an existing public/ or static/ directory, otherwise the project root
+  { id: "html", name: "Static HTML", publicDirs: [PUBLIC, STATIC, ROOT] },
+];
+
+// Other names accepted for project_type
+const FRAMEWORK_ALIASES: Record<string, string> = {
+  "static": "html",
+  "nextjs": "next",
+  "svelte-kit": "sveltekit",
+  "11ty": "eleventy",
+  "react-router": "remix",
+};
+
+// package.json dependencies that identify a framework, most specific first (several build on Vite)
+const DEPENDENCY_HINTS: [string, string][] = [
+  ["next", "next"],
+  ["nuxt", "nuxt"],
+  ["astro", "astro"],
+  ["@sveltejs/kit", "sveltekit"],
+  ["@remix-run/dev", "remix"],
+  ["@remix-run/react", "remix"],
+  ["@react-router/dev", "remix"],
+  ["gatsby", "gatsby"],
+  ["@11ty/eleventy", "eleventy"],
+  ["@angular/core", "angular"],
+  ["react-scripts", "react"],
+  ["@vue/cli-service", "vue"],
+  ["vite", "vite"],
+];
+
+// Config files that identify a framework, for projects without a package.json (Hugo, Jekyll) or with sparse ones.
+// Generic file names only count when one of the listed directories exists next to them.
+const CONFIG_FILE_HINTS: [RegExp, string, string[]?][] = [
+  [/^next\.config\.[cm]?[jt]s$/, "next"],
+  [/^nuxt\.config\.[cm]?[jt]s$/, "nuxt"],
+  [/^astro\.config\.[cm]?[jt]s$/, "astro"],
+  [/^svelte\.config\.[cm]?js$/, "sveltekit"],
+  [/^remix\.config\.[cm]?js$/, "remix"],
+  [/^gatsby-config\.[cm]?[jt]s$/, "gatsby"],
+  [/^(\.eleventy\.[cm]?js|eleventy\.config\.[cm]?[jt]s)$/, "eleventy"],
+  [/^angular\.json$/, "angular"],
+  [/^hugo\.(toml|ya?ml|json)$/, "hugo"],
+  [/^config\.toml$/, "hugo", ["layouts", "content"]],
+  [/^_config\.ya?ml$/, "jekyll"],
+  [/^vite\.config\.[cm]?[jt]s$/, "vite"],
+];
+
+// Look up a framework by id or alias
+export function findWebFramework(projectType: string): WebFramework {
+  const id = projectType.toLowerCase();
+  const framework = WEB_FRAMEWORKS.find(f => f.id === (FRAMEWORK_ALIASES[id] || id));
+  if (!framework) throw new UnknownFrameworkError(projectType);
+  return framework;
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function readDependencies(projectRoot: string): Promise<string[] | undefined> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(projectRoot, "package.json"), "utf-8"));
+    return Object.keys({ ...manifest.dependencies, ...manifest.devDependencies });
+  } catch {
+    return undefined;
+  }
+}
+
+// Identify a project's framework from its package.json dependencies, then its config files
+async function detectWebFramework(projectRoot: string): Promise<{ framework: WebFramework, detectedFrom: string }> {
+  const dependencies = await readDependencies(projectRoot);
+  if (dependencies) {
+    for (const [dependency, id] of DEPENDENCY_HINTS) {
+      if (dependencies.includes(dependency)) {
+        return { framework: findWebFramework(id), detectedFrom: `dependency '${dependency}' in package.json` };
+      }
+    }
+  }
+
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(projectRoot);
+  } catch {
+    // A project directory that doesn't exist yet is treated as a plain site
+  }
+  for (const [pattern, id, requiredDirs] of CONFIG_FILE_HINTS) {
+    const file = files.find(f => pattern.test(f));
+    if (file && (!requiredDirs || (await Promise.all(requiredDirs.map(dir => isDirectory(path.join(projectRoot, dir))))).some(Boolean))) {
+      return { framework: findWebFramework(id), detectedFrom: `config file ${file}` };
+    }
+  }
+
+  return { framework: findWebFramework("html"), detectedFrom: "no framework found" };
+}
+
+// Work out where a project serves static files from. project_type overrides detection unless it is "auto".
+export async function resolveWebProjectLayout(projectRoot: string, projectType?: string): Promise<WebProjectLayout> {
+  const { framework, detectedFrom } = projectType && projectType.toLowerCase() !== "auto"
+    ? { framework: findWebFramework(projectType), detectedFrom: "project_type" }
+    : await detectWebFramework(projectRoot);
+
+  let layout = framework.publicDirs[0];
+  for (const candidate of framework.publicDirs) {
+    if (await isDirectory(path.join(projectRoot, candidate.dir))) {
+      layout = candidate;
+      break;
+    }
+  }
+
+  return {
+    framework,
+    detectedFrom,
+    publicDir: path.resolve(projectRoot, layout.dir),
+    publicUrl: layout.url,
+    assetDir: layout.assetDir,
+    sourceDir: framework.sourceDir ? path.resolve(projectRoot, framework.sourceDir) : undefined,
+  };
+}
+
+// URL path a file inside the public directory is served at, or undefined for files outside it
+export function servedUrlPath(layout: WebProjectLayout, filepath: string): string | undefined {
+  const relative = path.relative(layout.publicDir, path.resolve(filepath));
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+  const segments = relative ? relative.split(path.sep).map(encodeURIComponent) : [];
+  return layout.publicUrl.replace(/\/?$/, "/") + segments.join("/");
+}
+
+// Import specifier for a file inside the source directory, relative to that directory (e.g. "./assets/logo.png"),
+// or undefined for files outside it
+export function sourceImportPath(layout: WebProjectLayout, filepath: string): string | undefined {
+  if (!layout.sourceDir) return undefined;
+  const relative = path.relative(layout.sourceDir, path.resolve(filepath));
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+  return `./${relative.split(path.sep).join("/")}`;
+}
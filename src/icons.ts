@@ -0,0 +1,151 @@
+import sharp from "sharp";
+import { escapeAttribute } from "./snippets.js";
+
+// Sizes embedded in favicon.ico
+const ICO_SIZES = [16, 32, 48];
+
+// Characters of the CSS colour syntaxes sharp understands: hex, rgb(), hsl() and the like, and colour names
+const CSS_COLOR_PATTERN = /^(#[0-9a-f]+|[a-z]+\([0-9\s.,%/+-]+\)|[a-z]+)$/i;
+
+// Fraction of a maskable icon that is guaranteed to be visible (the "safe zone" is a circle of 80% diameter)
+const MASKABLE_SAFE_ZONE = 0.8;
+
+export interface IconSetOptions {
+  // App name used in the web manifest
+  name?: string;
+  shortName?: string;
+  themeColor?: string;
+  // Used behind the Apple touch icon and maskable icon, which can't be transparent
+  backgroundColor?: string;
+  // URL path the icons will be served from, e.g. "/" or "/icons/"
+  publicPath?: string;
+}
+
+export interface IconSetFile {
+  filename: string;
+  data: Buffer;
+  size?: number;
+}
+
+export interface IconSet {
+  files: IconSetFile[];
+  manifest: Record<string, any>;
+  htmlTags: string;
+}
+
+// Encode PNG images into a single .ico file (PNG-compressed entries, supported by all current browsers)
+export function encodeIco(images: { size: number, data: Buffer }[]): Buffer {
+  const headerSize = 6;
+  const entrySize = 16;
+  const header = Buffer.alloc(headerSize);
+  header.writeUInt16LE(0, 0); // Reserved
+  header.writeUInt16LE(1, 2); // Image type: icon
+  header.writeUInt16LE(images.length, 4);
+
+  const entries: Buffer[] = [];
+  let offset = headerSize + entrySize * images.length;
+  for (const image of images) {
+    const entry = Buffer.alloc(entrySize);
+    // Width and height of 256 are stored as 0
+    entry.writeUInt8(image.size >= 256 ? 0 : image.size, 0);
+    entry.writeUInt8(image.size >= 256 ? 0 : image.size, 1);
+    entry.writeUInt8(0, 2); // No palette
+    entry.writeUInt8(0, 3); // Reserved
+    entry.writeUInt16LE(1, 4); // Color planes
+    entry.writeUInt16LE(32, 6); // Bits per pixel
+    entry.writeUInt32LE(image.data.length, 8);
+    entry.writeUInt32LE(offset, 12);
+    entries.push(entry);
+    offset += image.data.length;
+  }
+
+  return Buffer.concat([header, ...entries, ...images.map(image => image.data)]);
+}
+
+// Whether a theme or background colour is a CSS colour sharp can render with
+export function isCssColor(value: string): boolean {
+  if (!CSS_COLOR_PATTERN.test(value)) return false;
+  try {
+    // sharp parses the colour when the image is described, before anything is rendered
+    sharp({ create: { width: 1, height: 1, channels: 4, background: value } });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Render the source image as a square PNG, padding non-square sources instead of cropping them
+async function renderSquare(source: Buffer, size: number, background?: string): Promise<Buffer> {
+  let image = sharp(source, { density: 384 })
+    .resize(size, size, { fit: "contain", background: background || { r: 0, g: 0, b: 0, alpha: 0 } });
+  if (background) {
+    image = image.flatten({ background });
+  }
+  return image.png().toBuffer();
+}
+
+// Render a maskable icon: the artwork is scaled into the safe zone on a solid background
+async function renderMaskable(source: Buffer, size: number, background: string): Promise<Buffer> {
+  const inner = Math.round(size * MASKABLE_SAFE_ZONE);
+  const artwork = await renderSquare(source, inner);
+  return sharp({
+    create: { width: size, height: size, channels: 4, background },
+  })
+    .composite([{ input: artwork, gravity: "center" }])
+    .png()
+    .toBuffer();
+}
+
+// Render favicon.ico, PNG icons for browsers, Apple and Android, a maskable icon and site.webmanifest
+export async function buildIconSet(source: Buffer, options: IconSetOptions = {}, sourceIsSvg = false): Promise<IconSet> {
+  const backgroundColor = options.backgroundColor || "#ffffff";
+  const themeColor = options.themeColor || backgroundColor;
+  const publicPath = (options.publicPath || "/").replace(/\/?$/, "/");
+
+  const files: IconSetFile[] = [];
+  const add = (filename: string, data: Buffer | string, size?: number) => {
+    files.push({ filename, data: Buffer.isBuffer(data) ? data : Buffer.from(data), size });
+  };
+
+  // favicon.ico with the classic sizes
+  const icoImages = await Promise.all(ICO_SIZES.map(async size => ({ size, data: await renderSquare(source, size) })));
+  add("favicon.ico", encodeIco(icoImages));
+
+  // Keep scalable artwork for browsers that support SVG favicons
+  if (sourceIsSvg) {
+    add("favicon.svg", source);
+  }
+
+  add("favicon-16x16.png", icoImages[0].data, 16);
+  add("favicon-32x32.png", icoImages[1].data, 32);
+  add("apple-touch-icon.png", await renderSquare(source, 180, backgroundColor), 180);
+  add("android-chrome-192x192.png", await renderSquare(source, 192), 192);
+  add("android-chrome-512x512.png", await renderSquare(source, 512), 512);
+  add("maskable-icon-512x512.png", await renderMaskable(source, 512, backgroundColor), 512);
+
+  const manifest = {
+    name: options.name || "App",
+    short_name: options.shortName || options.name || "App",
+    icons: [
+      { src: `${publicPath}android-chrome-192x192.png`, sizes: "192x192", type: "image/png" },
+      { src: `${publicPath}android-chrome-512x512.png`, sizes: "512x512", type: "image/png" },
+      { src: `${publicPath}maskable-icon-512x512.png`, sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+    theme_color: themeColor,
+    background_color: backgroundColor,
+    display: "standalone",
+  };
+  add("site.webmanifest", JSON.stringify(manifest, null, 2) + "\n");
+
+  const htmlTags = [
+    `<link rel="icon" href="${publicPath}favicon.ico" sizes="any">`,
+    ...(sourceIsSvg ? [`<link rel="icon" href="${publicPath}favicon.svg" type="image/svg+xml">`] : []),
+    `<link rel="icon" type="image/png" sizes="32x32" href="${publicPath}favicon-32x32.png">`,
+    `<link rel="icon" type="image/png" sizes="16x16" href="${publicPath}favicon-16x16.png">`,
+    `<link rel="apple-touch-icon" href="${publicPath}apple-touch-icon.png">`,
+    `<link rel="manifest" href="${publicPath}site.webmanifest">`,
+    `<meta name="theme-color" content="${escapeAttribute(themeColor)}">`,
+  ].join("\n");
+
+  return { files, manifest, htmlTags };
+}
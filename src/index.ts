@@ -12,16 +12,55 @@ import {
 import fetch from "node-fetch";
 import open from "open";
 import * as fs from "fs/promises";
+import { realpathSync } from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import sharp from "sharp";
-import { optimize } from "svgo";
+import { recordImage, findImageRecord, readCatalog, hashContent, normalizeLocation, GenerationDetails, ImageRecord } from "./catalog.js";
+import { buildIconSet, isCssColor } from "./icons.js";
+import { InvalidStorageKeyError, StorageNotFoundError, StoredObject } from "./storage.js";
+import { integerFromEnv, loadConfig, resolveStorageDir } from "./config.js";
+import { createLibraries, DEFAULT_LIBRARY, Library } from "./libraries.js";
+import { DEFAULT_TRACE_COLORS, MAX_TRACE_COLORS, MIN_TRACE_COLORS, TraceOptions, TRACE_DETAIL_LEVELS, traceToSvg, validateTraceOptions } from "./vectorize.js";
+import { createModelRegistry, describeModel, formatModelIds, formatModelList, GenerationParameter, GenerationSettings, isVectorModel, ModelDefinition, ModelRegistry, modelDisplayName, normalizeModelId, resolveModel, unsupportedParameters, validateGenerationSettings } from "./models.js";
+import { applyStylePrompt, createStylePresets, mergeStyleSettings, StylePreset } from "./styles.js";
+import { createEverArtClient, EverArtClient, EVERART_API_URL } from "./client.js";
+import { isMockEnabled, MockBackend, mockOptionsFromEnv, startMockBackend } from "./mock.js";
+import { HttpStatusError, parseRetryAfter, pollUntil, resolveRetryPolicy, RetryPolicy, withRetry } from "./retry.js";
+import { BatchItemResult, BatchManifest, buildManifest, formatBatchReport, loadManifest, MAX_BATCH_CONCURRENCY, parseManifestText, resolveBatchConcurrency, runWithConcurrency } from "./batch.js";
+import { CONVERT_FORMATS, ConvertFormat, ConvertOptions, convertImage, DEFAULT_QUALITY, DEFAULT_TOLERANCE, encodeImage, RESIZE_FITS, validateConvertOptions } from "./convert.js";
+import { defaultIdPrefix, formatSizeChange, optimizeSvg, resolveSvgProfile, SvgOptimizeOptions, SvgOptimizeReport, SvgProfile, SVG_PROFILES, validateSvgOptions } from "./svg.js";
+import { buildSvgComponent, SvgComponentOptions, SVG_COMPONENT_FRAMEWORKS, SvgComponentFramework } from "./components.js";
+import { buildUsageSnippets, escapeAttribute, formatUsageSnippets, UsageSnippet } from "./snippets.js";
+import { resolveWebProjectLayout, servedUrlPath, sourceImportPath, UnknownFrameworkError, WebProjectLayout, WEB_FRAMEWORKS } from "./frameworks.js";
+import {
+  DEFAULT_PROJECT_FILENAME_TEMPLATE,
+  DEFAULT_STORAGE_FILENAME_TEMPLATE,
+  FILENAME_TOKENS,
+  FilenameValues,
+  renderFilenameTemplate,
+  slugify,
+  validateFilenameTemplate,
+} from "./filenames.js";
+import {
+  FileExistsError,
+  OverwritePolicy,
+  OVERWRITE_POLICIES,
+  PathNotAllowedError,
+  joinWithin,
+  numberedName,
+  resolveAllowedPath,
+  resolveOverwritePolicy,
+  resolveWritableRoots,
+} from "./paths.js";
+import { Job, JobRunner, JobStatus, loadJobs, createJob, getJob, listJobs, updateJob, startJob, cancelJob } from "./jobs.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const STORAGE_DIR = path.join(__dirname, "..", "images");
+// Images used to be stored inside the package; that directory is still used if it exists
+const LEGACY_STORAGE_DIR = path.join(__dirname, "..", "images");
 
 // Define error types
-enum EverArtErrorType {
+export enum EverArtErrorType {
   API_ERROR = "API_ERROR",
   AUTHENTICATION_ERROR = "AUTHENTICATION_ERROR",
   NETWORK_ERROR = "NETWORK_ERROR",
@@ -31,7 +70,7 @@ enum EverArtErrorType {
   UNKNOWN_ERROR = "UNKNOWN_ERROR"
 }
 
-interface EverArtError {
+export interface EverArtError {
   type: EverArtErrorType;
   message: string;
   details?: any;
@@ -62,39 +101,240 @@ const server = new Server(
   },
 );
 
-// API key validation with better error message
-if (!process.env.EVERART_API_KEY) {
-  console.error("ERROR: EVERART_API_KEY environment variable is not set. Please add your EverArt API key to the MCP settings.");
-  process.exit(1);
+// EverArt SDK client, or the mock backend's client when EVERART_MOCK is set
+let client: EverArtClient;
+// API base URL and key for requests the SDK can't make (see postGeneration)
+let API_URL: string = EVERART_API_URL;
+let API_KEY: string;
+// Running mock backend, closed by shutdown()
+let mockBackend: MockBackend | undefined;
+
+// Storage root (job state, default library) and the named image libraries from the config file
+let STORAGE_DIR: string;
+let libraries: Map<string, Library>;
+let defaultLibraryName: string;
+// Directories file arguments (output_path, web_project_path, source image paths) must be inside
+let ALLOWED_ROOTS: string[];
+let DEFAULT_OVERWRITE_POLICY: OverwritePolicy;
+// Filename template from EVERART_FILENAME_TEMPLATE or the config file; each destination has its own default otherwise
+let DEFAULT_FILENAME_TEMPLATE: string | undefined;
+// svgo profile for SVG output from EVERART_SVG_PROFILE or the config file
+let DEFAULT_SVG_PROFILE: SvgProfile;
+// Built-in models plus those added in the config file
+let MODELS: ModelRegistry;
+// Named style presets from the config file
+let STYLES: Map<string, StylePreset>;
+// Retries, timeouts and polling for EverArt API requests and image downloads
+let RETRY_POLICY: RetryPolicy;
+// Size budget for inline image content in tool results from EVERART_INLINE_IMAGE_MAX_BYTES; 0 disables inline images
+let INLINE_IMAGE_MAX_BYTES: number;
+// Background jobs running at once, from EVERART_MAX_CONCURRENT_JOBS
+let MAX_CONCURRENT_JOBS: number;
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+
+// Thrown by initialize() when the server can't start
+export class StartupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StartupError";
+  }
+}
+
+// Create the EverArt client (or start the mock backend) and load the config file, libraries, models and styles.
+// Run once before serving requests; importing this module has no other side effects.
+export async function initialize(): Promise<void> {
+  if (isMockEnabled()) {
+    try {
+      mockBackend = await startMockBackend({ ...mockOptionsFromEnv(), apiKey: process.env.EVERART_API_KEY });
+    } catch (error) {
+      throw new StartupError(`Failed to start the mock EverArt backend: ${(error as Error).message}`);
+    }
+    client = mockBackend.client;
+    API_URL = mockBackend.apiUrl;
+    API_KEY = process.env.EVERART_API_KEY || "mock";
+    console.error(`Using the mock EverArt backend at ${mockBackend.url}`);
+  } else {
+    if (!process.env.EVERART_API_KEY) {
+      throw new StartupError("EVERART_API_KEY environment variable is not set. Please add your EverArt API key to the MCP settings, or set EVERART_MOCK=true to use the offline mock backend.");
+    }
+    try {
+      console.error("Initializing EverArt client...");
+      client = createEverArtClient(process.env.EVERART_API_KEY);
+      API_KEY = process.env.EVERART_API_KEY;
+      console.error("EverArt client initialized successfully");
+    } catch (error) {
+      throw new StartupError(`Failed to initialize EverArt client: ${(error as Error).message}. Please check your API key and network connection.`);
+    }
+  }
+
+  try {
+    const { config, path: configPath } = loadConfig();
+    if (configPath) console.error(`Loaded config from ${configPath}`);
+    STORAGE_DIR = resolveStorageDir(config, LEGACY_STORAGE_DIR);
+    ({ libraries, defaultLibrary: defaultLibraryName } = createLibraries(config, STORAGE_DIR));
+    for (const library of libraries.values()) {
+      console.error(`Using ${library.storage.type} image storage for library '${library.name}': ${library.storage.description}`);
+    }
+    // Local libraries are always writable
+    ALLOWED_ROOTS = [...new Set([
+      ...resolveWritableRoots(config),
+      ...[...libraries.values()].filter(library => library.storage.type === "local").map(library => library.metadataDir),
+    ])];
+    DEFAULT_OVERWRITE_POLICY = resolveOverwritePolicy(config);
+    DEFAULT_FILENAME_TEMPLATE = process.env.EVERART_FILENAME_TEMPLATE || config.filenameTemplate;
+    if (DEFAULT_FILENAME_TEMPLATE) validateFilenameTemplate(DEFAULT_FILENAME_TEMPLATE);
+    DEFAULT_SVG_PROFILE = resolveSvgProfile(config);
+    MODELS = createModelRegistry(config);
+    STYLES = createStylePresets(config, MODELS);
+    RETRY_POLICY = resolveRetryPolicy(config);
+    INLINE_IMAGE_MAX_BYTES = integerFromEnv("EVERART_INLINE_IMAGE_MAX_BYTES", DEFAULT_INLINE_IMAGE_MAX_BYTES, 0);
+    MAX_CONCURRENT_JOBS = integerFromEnv("EVERART_MAX_CONCURRENT_JOBS", DEFAULT_MAX_CONCURRENT_JOBS, 1);
+  } catch (error) {
+    await shutdown();
+    throw new StartupError(`Failed to configure image storage: ${(error as Error).message}`);
+  }
+}
+
+// Stop the mock backend, if one is running
+export async function shutdown(): Promise<void> {
+  await mockBackend?.close();
+  mockBackend = undefined;
+}
+
+// Look up the library a tool call asked for, or the default library
+function getLibrary(name?: unknown): Library {
+  if (name === undefined || name === null || name === "") return libraries.get(defaultLibraryName)!;
+  const library = typeof name === "string" ? libraries.get(name) : undefined;
+  if (!library) {
+    throw new Error(`Unknown library: ${name}. Available libraries: ${[...libraries.keys()].join(", ")}`);
+  }
+  return library;
+}
+
+// Resolve the library argument of a tool call
+function resolveLibraryArg(args: any): { library?: Library, error?: EverArtError } {
+  try {
+    return { library: getLibrary(args?.library) };
+  } catch (error) {
+    return { error: { type: EverArtErrorType.VALIDATION_ERROR, message: (error as Error).message } };
+  }
+}
+
+// Resolve the model argument of a tool call; a missing model means the default one
+function resolveModelArg(args: any): { model?: ModelDefinition, error?: EverArtError } {
+  try {
+    return { model: resolveModel(MODELS, args?.model) };
+  } catch (error) {
+    return { error: { type: EverArtErrorType.VALIDATION_ERROR, message: (error as Error).message } };
+  }
 }
 
-// Constants for retry logic
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000; // 1 second
+// Resolve the overwrite argument of a tool call
+function resolveOverwriteArg(args: any): { overwrite?: OverwritePolicy, error?: EverArtError } {
+  const overwrite = args?.overwrite ?? DEFAULT_OVERWRITE_POLICY;
+  if (!OVERWRITE_POLICIES.includes(overwrite)) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: `overwrite must be one of: ${OVERWRITE_POLICIES.join(", ")}`
+    } };
+  }
+  return { overwrite };
+}
 
-// Import and initialize EverArt client with better type definition
-import { createRequire } from 'module';
-const require = createRequire(import.meta.url);
-const EverArt = require('everart');
+// Resolve the filename_template argument of a tool call
+function resolveFilenameTemplateArg(args: any): { filenameTemplate?: string, error?: EverArtError } {
+  const template = args?.filename_template;
+  if (template === undefined || template === null || template === "") return {};
+  try {
+    if (typeof template !== "string") throw new Error("filename_template must be a string");
+    validateFilenameTemplate(template);
+    return { filenameTemplate: template };
+  } catch (error) {
+    return { error: { type: EverArtErrorType.VALIDATION_ERROR, message: (error as Error).message } };
+  }
+}
 
-interface EverArtClient {
-  v1: {
-    generations: {
-      create: (model: string, prompt: string, mode: string, options: any) => Promise<any[]>;
-      fetchWithPolling: (generationId: string, options?: { maxAttempts?: number, interval?: number }) => Promise<any>;
+// Resolve the SVG optimization arguments of a tool call against the default profile
+function resolveSvgArgs(args: any): { svg?: SvgOptimizeOptions, error?: EverArtError } {
+  const svg: SvgOptimizeOptions = {
+    profile: args?.svg_profile ?? DEFAULT_SVG_PROFILE,
+    overrides: args?.svg_overrides,
+    idPrefix: args?.svg_id_prefix,
+  };
+  try {
+    if (svg.overrides !== undefined && (typeof svg.overrides !== "object" || Array.isArray(svg.overrides))) {
+      throw new Error("svg_overrides must be an object mapping svgo plugin names to true or false");
     }
+    validateSvgOptions(svg);
+    return { svg };
+  } catch (error) {
+    return { error: { type: EverArtErrorType.VALIDATION_ERROR, message: (error as Error).message } };
   }
 }
 
-let client: EverArtClient;
-try {
-  console.error("Initializing EverArt client...");
-  client = new EverArt.default(process.env.EVERART_API_KEY!);
-  console.error("EverArt client initialized successfully");
-} catch (error) {
-  console.error("Failed to initialize EverArt client:", error);
-  console.error("Please check your API key and network connection.");
-  process.exit(1);
+// Resolve the quality argument of a tool call
+function resolveQualityArg(args: any): { quality?: number, error?: EverArtError } {
+  const quality = args?.quality;
+  if (quality === undefined || quality === null) return {};
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: "quality must be an integer between 1 and 100"
+    } };
+  }
+  return { quality };
+}
+
+// Resolve the vectorize arguments of a tool call; trace is only set when vectorize is true
+function resolveTraceArgs(args: any): { trace?: TraceOptions, error?: EverArtError } {
+  if (args?.vectorize !== true) return {};
+  const trace: TraceOptions = { colors: args.vector_colors, detail: args.vector_detail };
+  try {
+    validateTraceOptions(trace);
+    return { trace };
+  } catch (error) {
+    return { error: { type: EverArtErrorType.VALIDATION_ERROR, message: (error as Error).message } };
+  }
+}
+
+// Resolve the style argument of a tool call
+function resolveStyleArg(args: any): { style?: StylePreset, error?: EverArtError } {
+  if (args?.style === undefined || args.style === null || args.style === "") return {};
+  const style = typeof args.style === "string" ? STYLES.get(args.style) : undefined;
+  if (!style) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: STYLES.size > 0
+        ? `Unknown style: ${args.style}. Available styles: ${[...STYLES.keys()].join(", ")}`
+        : `Unknown style: ${args.style}. No styles are configured; add them under "styles" in the config file.`
+    } };
+  }
+  return { style };
+}
+
+// Resolve the negative_prompt, seed, guidance and steps arguments of a tool call
+function resolveGenerationSettingsArgs(args: any): { settings?: GenerationSettings, error?: EverArtError } {
+  const settings: GenerationSettings = {
+    negativePrompt: typeof args?.negative_prompt === "string" ? args.negative_prompt.trim() || undefined : args?.negative_prompt ?? undefined,
+    seed: args?.seed ?? undefined,
+    guidance: args?.guidance ?? undefined,
+    steps: args?.steps ?? undefined,
+  };
+  try {
+    validateGenerationSettings(settings);
+    return { settings };
+  } catch (error) {
+    return { error: { type: EverArtErrorType.VALIDATION_ERROR, message: (error as Error).message } };
+  }
+}
+
+// Find the library and key a storage location belongs to
+function findStoredLocation(location: string): { library: Library, key: string } | undefined {
+  for (const library of libraries.values()) {
+    const key = library.storage.keyFor(location);
+    if (key !== undefined) return { library, key };
+  }
+  return undefined;
 }
 
 // Ensure storage directory exists with better error handling
@@ -122,63 +362,444 @@ function getMimeType(format: string): string {
       return 'image/jpeg';
     case 'webp':
       return 'image/webp';
+    case 'avif':
+      return 'image/avif';
+    case 'gif':
+      return 'image/gif';
+    case 'tsx':
+    case 'vue':
+      return 'text/plain; charset=utf-8';
     default:
       return 'application/octet-stream';
   }
 }
 
+// Image size handling
+interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_GENERATION_SIZE: ImageDimensions = { width: 1024, height: 1024 };
+const MAX_TARGET_SIDE = 4096;
+
+// Named web presets with exact output sizes
+const SIZE_PRESETS: Record<string, ImageDimensions & { description: string }> = {
+  hero_banner: { width: 1920, height: 1080, description: "Hero banner (16:9)" },
+  og_image: { width: 1200, height: 630, description: "Open Graph / social preview image" },
+  favicon: { width: 32, height: 32, description: "Favicon" },
+  app_icon: { width: 512, height: 512, description: "App icon" },
+  square_social: { width: 1080, height: 1080, description: "Square social media post" },
+};
+
+// Parse an aspect ratio like "16:9" or "1.91:1" into width / height
+function parseAspectRatio(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  const ratio = parseFloat(match[1]) / parseFloat(match[2]);
+  return isFinite(ratio) && ratio > 0 ? ratio : undefined;
+}
+
+// Resolve the exact output size requested through width/height, aspect_ratio or a preset.
+// Returns the size to request from the model, within its size limits, and, when one was asked for, the exact target size.
+function resolveImageSize(args: { width?: unknown, height?: unknown, aspect_ratio?: unknown, size_preset?: unknown }, limits: { minSide: number, maxSide: number }): { generation: ImageDimensions, target?: ImageDimensions, error?: string } {
+  const isSide = (value: unknown) => Number.isInteger(value) && (value as number) >= 16 && (value as number) <= MAX_TARGET_SIDE;
+  const fail = (error: string) => ({ generation: DEFAULT_GENERATION_SIZE, error });
+
+  if (args.width !== undefined && !isSide(args.width)) return fail(`width must be an integer between 16 and ${MAX_TARGET_SIDE}`);
+  if (args.height !== undefined && !isSide(args.height)) return fail(`height must be an integer between 16 and ${MAX_TARGET_SIDE}`);
+
+  let ratio: number | undefined;
+  if (args.aspect_ratio !== undefined) {
+    ratio = typeof args.aspect_ratio === "string" ? parseAspectRatio(args.aspect_ratio) : undefined;
+    if (!ratio) return fail(`aspect_ratio must look like "16:9" or "1.91:1"`);
+    if (args.width !== undefined && args.height !== undefined) return fail("Specify at most two of width, height and aspect_ratio");
+  }
+
+  let preset: ImageDimensions | undefined;
+  if (args.size_preset !== undefined) {
+    preset = SIZE_PRESETS[String(args.size_preset)];
+    if (!preset) return fail(`Unknown size_preset: ${args.size_preset}. Available presets are: ${Object.keys(SIZE_PRESETS).join(", ")}`);
+    ratio = ratio ?? preset.width / preset.height;
+  }
+
+  // Explicit sides win over the preset; a missing side follows the aspect ratio (square if there is none)
+  let width = args.width as number | undefined;
+  let height = args.height as number | undefined;
+  if (width !== undefined && height === undefined) {
+    height = Math.max(1, Math.round(width / (ratio ?? 1)));
+  } else if (height !== undefined && width === undefined) {
+    width = Math.max(1, Math.round(height * (ratio ?? 1)));
+  } else if (width === undefined && height === undefined && preset) {
+    width = preset.width;
+    height = Math.max(1, Math.round(preset.width / ratio!));
+  }
+
+  const target = width !== undefined && height !== undefined ? { width, height } : undefined;
+  // Without a size or ratio the model's default square size is used
+  ratio = (target ? target.width / target.height : ratio) || 1;
+
+  // Generate at the default resolution (or larger for big targets) with the target aspect ratio
+  const longSide = Math.min(limits.maxSide, Math.max(DEFAULT_GENERATION_SIZE.width, target ? Math.max(target.width, target.height) : 0));
+  const roundSide = (side: number) => Math.min(limits.maxSide, Math.max(limits.minSide, Math.round(side / 8) * 8));
+  const generation = ratio >= 1
+    ? { width: roundSide(longSide), height: roundSide(longSide / ratio) }
+    : { width: roundSide(longSide * ratio), height: roundSide(longSide) };
+
+  return { generation, target };
+}
+
 // Validate model and format compatibility
-function validateModelFormatCompatibility(model: string, format: string): boolean {
-  // SVG is only supported by Recraft-Vector (8000)
-  if (format.toLowerCase() === 'svg' && model !== '8000') {
-    return false;
+function validateModelFormatCompatibility(model: string, format: string, vectorize: boolean = false): boolean {
+  const definition = MODELS.models.get(model);
+  // Models no longer in the registry, e.g. from persisted jobs, aren't checked
+  if (!definition) return true;
+  format = format.toLowerCase();
+  // Raster output can be traced into SVG locally
+  return definition.formats.includes(format) || (format === "svg" && vectorize);
+}
+
+// Explain which formats a model can produce, and how to get SVG from raster models
+function formatCompatibilityMessage(model: string, format: string): string {
+  const message = `Format '${format}' is not compatible with model '${model}'.`;
+  if (format.toLowerCase() === "svg") {
+    const vectorModels = [...MODELS.models.values()].filter(isVectorModel).map(m => `${m.id}:${m.name}`);
+    return `${message} SVG format is only available with ${vectorModels.length > 0 ? `vector models (${vectorModels.join(", ")})` : "vector models"}, ` +
+      `or with vectorize: true to trace raster output into a vector.`;
   }
-  return true;
+  return `${message} Supported formats are: ${MODELS.models.get(model)?.formats.join(", ")}`;
+}
+
+// Model used for artwork that should be vector, such as icons: the first vector model, or the default model
+function defaultVectorModel(): string {
+  return [...MODELS.models.values()].find(isVectorModel)?.id || MODELS.defaultModel;
+}
+
+// An asset directory inside a web project, with the layout that determines how it is served
+interface WebAssetLocation {
+  directory: string;
+  layout: WebProjectLayout;
+}
+
+// Resolve the asset directory of a web project, refusing project paths outside the allowed roots
+// and asset paths that escape the project's public directory
+async function resolveWebAssetDir(basePath: string, projectType?: string, assetPath?: string): Promise<WebAssetLocation> {
+  basePath = await resolveAllowedPath(basePath, ALLOWED_ROOTS);
+
+  // Detect the framework unless the caller named it, and place assets in its public directory.
+  // Asset paths under a framework's source directory (Vite's src/) are kept there so they can be imported.
+  const layout = await resolveWebProjectLayout(basePath, projectType);
+  const sourcePrefix = layout.framework.sourceDir && `${layout.framework.sourceDir}/`;
+  const normalized = assetPath?.replace(/\\/g, "/");
+  const fullPath = sourcePrefix && layout.sourceDir && normalized && `${normalized}/`.startsWith(sourcePrefix)
+    ? joinWithin(layout.sourceDir, normalized.slice(sourcePrefix.length) || ".", "asset_path")
+    : joinWithin(layout.publicDir, assetPath || layout.assetDir, "asset_path");
+  return { directory: await resolveAllowedPath(fullPath, ALLOWED_ROOTS), layout };
 }
 
 // Process and validate web project paths
-async function processWebProjectPath(basePath?: string, projectType?: string, assetPath?: string): Promise<string | undefined> {
+async function processWebProjectPath(basePath?: string, projectType?: string, assetPath?: string): Promise<WebAssetLocation | undefined> {
   if (!basePath) return undefined;
-  
+
+  const location = await resolveWebAssetDir(basePath, projectType, assetPath);
   try {
-    // Construct full path
-    let fullPath = basePath;
-    
-    // If it's a web project, add appropriate structure
-    if (projectType) {
-      // Check for common web project structure patterns
-      switch (projectType.toLowerCase()) {
-        case 'react':
-        case 'vue':
-        case 'angular':
-          fullPath = path.join(basePath, 'public', assetPath || 'images');
-          break;
-        case 'next':
-        case 'nuxt':
-          fullPath = path.join(basePath, 'public', assetPath || 'images');
-          break;
-        case 'html':
-        case 'static':
-        default:
-          fullPath = path.join(basePath, assetPath || 'assets/images');
-          break;
+    // Ensure directory exists
+    await fs.mkdir(location.directory, { recursive: true });
+  } catch (error) {
+    // Saving elsewhere would lose the framework's asset location and snippets, so fail instead
+    throw new Error(`Failed to prepare web project directory ${location.directory}: ${(error as Error).message}`);
+  }
+  return location;
+}
+
+// Download a generated image with the retry policy
+export async function downloadImage(imageUrl: string, signal?: AbortSignal): Promise<Buffer> {
+  return withRetry(async attemptSignal => {
+    const response = await fetch(imageUrl, { signal: attemptSignal });
+    if (!response.ok) {
+      throw new HttpStatusError(`Failed to fetch image: ${response.statusText} (${response.status})`, response.status,
+        parseRetryAfter(response.headers.get("retry-after")));
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }, RETRY_POLICY, { signal, description: "Image download" });
+}
+
+// Destination for a written file: an explicit local path, or a key in a library's storage backend
+type OutputDestination = { filepath: string } | { library: Library, storageKey: string };
+
+// Whether an output file already exists
+async function outputExists(destination: OutputDestination): Promise<boolean> {
+  if ("storageKey" in destination) {
+    return destination.library.storage.exists(destination.storageKey);
+  }
+  try {
+    await fs.access(await resolveAllowedPath(destination.filepath, ALLOWED_ROOTS));
+    return true;
+  } catch (error) {
+    if (error instanceof PathNotAllowedError) throw error;
+    return false;
+  }
+}
+
+// Most numbered alternatives tried by the "rename" overwrite policy
+const MAX_RENAME_ATTEMPTS = 1000;
+
+// Write an output file and return its location (local path or storage URI).
+// Existing files are handled according to the overwrite policy.
+async function writeOutputFile(destination: OutputDestination, data: Buffer, format: string, overwrite: OverwritePolicy = DEFAULT_OVERWRITE_POLICY): Promise<string> {
+  if ("storageKey" in destination) {
+    const { library, storageKey } = destination;
+    let key = storageKey;
+    if (overwrite !== "replace") {
+      let attempt = 0;
+      while (await library.storage.exists(key)) {
+        if (overwrite === "fail") throw new FileExistsError(library.storage.location(key));
+        if (++attempt >= MAX_RENAME_ATTEMPTS) throw new Error(`No free file name for ${library.storage.location(storageKey)}`);
+        key = numberedName(storageKey, attempt);
       }
-    } else if (assetPath) {
-      fullPath = path.join(basePath, assetPath);
     }
-    
-    // Ensure directory exists
-    await fs.mkdir(fullPath, { recursive: true });
-    
-    return fullPath;
+    return (await library.storage.write(key, data, getMimeType(format))).location;
+  }
+
+  const filepath = await resolveAllowedPath(destination.filepath, ALLOWED_ROOTS);
+  await fs.mkdir(path.dirname(filepath), { recursive: true });
+  if (overwrite === "replace") {
+    await fs.writeFile(filepath, data);
+    return filepath;
+  }
+
+  // Exclusive create, so a file appearing between the check and the write is never clobbered
+  for (let attempt = 0; attempt < MAX_RENAME_ATTEMPTS; attempt++) {
+    const candidate = numberedName(filepath, attempt);
+    try {
+      await fs.writeFile(candidate, data, { flag: "wx" });
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (overwrite === "fail") throw new FileExistsError(candidate);
+    }
+  }
+  throw new Error(`No free file name for ${filepath}`);
+}
+
+// Read an image from a local path or a storage location
+async function readImage(location: string): Promise<Buffer> {
+  const stored = findStoredLocation(location);
+  return stored ? stored.library.storage.read(stored.key) : fs.readFile(location);
+}
+
+// Public URL for a location, when its backend provides one
+function publicUrlFor(location: string): string | undefined {
+  const stored = findStoredLocation(location);
+  return stored?.library.storage.publicUrl(stored.key);
+}
+
+// Link a client can follow to view a file
+function viewUrl(location: string): string {
+  if (!location.includes("://")) return `file://${location}`;
+  return publicUrlFor(location) || location;
+}
+
+// Launching a desktop viewer is skipped in headless environments (CI, containers, Linux without a display).
+// EVERART_HEADLESS=true/false overrides the detection.
+function isHeadless(): boolean {
+  const setting = process.env.EVERART_HEADLESS?.toLowerCase();
+  if (setting) return ["1", "true", "yes"].includes(setting);
+  if (process.env.CI) return true;
+  return process.platform === "linux" && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY;
+}
+
+// Open a file in the default viewer unless disabled per call or by headless mode. Returns whether it was opened.
+async function openInViewer(location: string, openViewer?: unknown): Promise<boolean> {
+  const shouldOpen = typeof openViewer === "boolean" ? openViewer : !isHeadless();
+  if (!shouldOpen) return false;
+
+  // Remote files can only be opened when the backend serves them publicly
+  const target = location.includes("://") ? publicUrlFor(location) : location;
+  if (!target) return false;
+
+  try {
+    await open(target);
+    return true;
+  } catch (openError) {
+    console.warn("Could not open the image in default viewer:", openError);
+    // Continue without throwing - this is a non-critical error
+    return false;
+  }
+}
+
+// Default size budget for inline image content in tool results (raw bytes, before base64)
+const DEFAULT_INLINE_IMAGE_MAX_BYTES = 750000;
+
+// Formats MCP clients can display inline without conversion
+const INLINE_PASSTHROUGH_FORMATS = ["png", "jpg", "jpeg", "webp", "gif"];
+
+// Widths tried, largest first, when an image must be downscaled to fit the budget
+const THUMBNAIL_WIDTHS = [1024, 768, 512, 384, 256, 128];
+
+// Build an MCP image content block for a file, downscaling to a thumbnail when it exceeds the budget
+async function inlineImageContent(location: string, maxBytes: number = INLINE_IMAGE_MAX_BYTES): Promise<{ type: "image", data: string, mimeType: string } | undefined> {
+  if (!(maxBytes > 0)) return undefined;
+
+  try {
+    const content = await readImage(location);
+    const ext = path.extname(location).slice(1).toLowerCase();
+
+    if (INLINE_PASSTHROUGH_FORMATS.includes(ext) && content.length <= maxBytes) {
+      return { type: "image", data: content.toString("base64"), mimeType: getMimeType(ext) };
+    }
+
+    // SVG, AVIF and oversized images are re-encoded; keep transparency as PNG, otherwise use JPEG
+    const isSvg = ext === "svg";
+    const { hasAlpha, width = THUMBNAIL_WIDTHS[0] } = await sharp(content).metadata();
+    // Vector sources are rendered at each width; raster sources are never upscaled
+    const widths = isSvg ? THUMBNAIL_WIDTHS : [width, ...THUMBNAIL_WIDTHS].filter(w => w <= width);
+    for (const targetWidth of widths) {
+      const resized = sharp(content, isSvg ? { density: 144 } : {}).resize({ width: targetWidth });
+      const thumbnail = hasAlpha
+        ? await resized.png({ compressionLevel: 9 }).toBuffer()
+        : await resized.jpeg({ quality: 80 }).toBuffer();
+      if (thumbnail.length <= maxBytes) {
+        return { type: "image", data: thumbnail.toString("base64"), mimeType: hasAlpha ? "image/png" : "image/jpeg" };
+      }
+    }
+
+    console.warn(`Image too large for inline display even as a thumbnail: ${location}`);
+  } catch (error) {
+    console.warn("Unable to read image for inline display:", error);
+    // Continue without inline display if reading fails
+  }
+  return undefined;
+}
+
+// Record metadata for a written image in the catalog. Failures are logged, not fatal.
+async function catalogImage(library: Library, filepath: string, content: Buffer, prompt: string, model: string, format: string, dimensions: { width?: number, height?: number }, sourceUrl?: string, generationId?: string, details: GenerationDetails = {}): Promise<void> {
+  const record: ImageRecord = {
+    path: normalizeLocation(filepath),
+    filename: path.basename(filepath),
+    prompt,
+    model,
+    format,
+    ...dimensions,
+    bytes: content.length,
+    generationId,
+    sourceUrl,
+    contentHash: hashContent(content),
+    createdAt: new Date().toISOString(),
+    ...details,
+  };
+
+  try {
+    await recordImage(library.metadataDir, record);
   } catch (error) {
-    console.error(`Failed to process web project path: ${(error as Error).message}`);
-    return undefined;
+    console.warn(`Failed to record image metadata for ${filepath}:`, error);
+  }
+}
+
+// Filename template values shared by every file written for a generation
+function filenameValues(prompt: string, model: string, content: Buffer, generationId?: string): FilenameValues {
+  const now = new Date().toISOString();
+  return {
+    slug: slugify(prompt),
+    model,
+    date: now.slice(0, 10),
+    timestamp: now.replace(/[:.]/g, "-"),
+    hash: hashContent(content).slice(0, 8),
+    id: generationId,
+  };
+}
+
+// Whether downloaded content is SVG markup rather than a raster image
+async function isSvgContent(content: Buffer): Promise<boolean> {
+  try {
+    return (await sharp(content).metadata()).format === "svg";
+  } catch {
+    return false;
+  }
+}
+
+// Whether output_path names a directory: it ends with a path separator or is an existing directory
+async function isDirectoryPath(outputPath: string): Promise<boolean> {
+  if (/[\\/]$/.test(outputPath)) return true;
+  try {
+    return (await fs.stat(outputPath)).isDirectory();
+  } catch {
+    return false;
   }
 }
 
+// Where and how saveImage writes a file
+interface SaveImageOptions {
+  outputPath?: string;
+  webProjectPath?: string;
+  projectType?: string;
+  assetPath?: string;
+  generationId?: string;
+  // 1-based position within a multi-image generation; appended to the filename so images don't overwrite each other
+  index?: number;
+  // Exact output size; raster images are cropped and resized to fill it
+  resize?: ImageDimensions;
+  // Library to store the image in (when no output or web project path is given) and to catalog it in
+  library?: Library;
+  // What to do if the file already exists
+  overwrite?: OverwritePolicy;
+  // Template for the file name when saving into a directory, web project or library (see filenames.ts)
+  filenameTemplate?: string;
+  // Export SVG output as a React or Vue component next to (or instead of) the .svg file
+  component?: SvgComponentOptions;
+  // svgo profile and overrides for SVG output (default: the configured profile)
+  svg?: SvgOptimizeOptions;
+  // Trace raster output into an SVG when the format is svg
+  trace?: TraceOptions;
+  // Encoder quality for raster output, 1-100 (default: the format's default)
+  quality?: number;
+  // Generation parameters and style, recorded in the catalog
+  details?: GenerationDetails;
+  // Cancels the download
+  signal?: AbortSignal;
+}
+
+// A file written by saveImage; web is set when it was saved into a web project's public directory.
+// With component.replaceSvg, filepath is the component rather than an image.
+interface SavedFile {
+  filepath: string;
+  web?: WebAsset;
+  // Path of the exported React or Vue component
+  component?: string;
+  // Sizes before and after svgo, for SVG output
+  svgOptimization?: SvgOptimizeReport;
+}
+
+// The framework of the web project an asset was saved into, the URL path it is served at (or the import path
+// of an asset in the source directory) and how to use it
+interface WebAsset {
+  framework: string;
+  url?: string;
+  importPath?: string;
+  snippets: UsageSnippet[];
+}
+
+// Describe a file saved into a web project, if it is inside the served directory or the source directory
+function webAssetFor(location: WebAssetLocation, filepath: string, content: Buffer, format: string, alt: string, dimensions: { width?: number, height?: number }): WebAsset | undefined {
+  const url = servedUrlPath(location.layout, filepath);
+  const importPath = url ? undefined : sourceImportPath(location.layout, filepath);
+  if (!url && !importPath) return undefined;
+  const snippets = buildUsageSnippets({
+    url,
+    importPath,
+    framework: location.layout.framework,
+    alt,
+    ...dimensions,
+    svg: format === "svg" ? content.toString("utf-8") : undefined,
+  });
+  return { framework: location.layout.framework.name, url, importPath, snippets };
+}
+
 // Enhanced image saving with better error handling and format validation
-async function saveImage(imageUrl: string, prompt: string, model: string, format: string = "svg", outputPath?: string, webProjectPath?: string, projectType?: string, assetPath?: string): Promise<string> {
+export async function saveImage(imageUrl: string, prompt: string, model: string, format: string = "svg", options: SaveImageOptions = {}): Promise<SavedFile> {
+  const { outputPath, webProjectPath, projectType, assetPath, generationId, index, resize, overwrite, filenameTemplate, component, svg, trace, quality, details } = options;
+  const library = options.library || getLibrary();
+
   // Validate format
   format = format.toLowerCase();
   const supportedFormats = ['svg', 'png', 'jpg', 'jpeg', 'webp'];
@@ -187,155 +808,432 @@ async function saveImage(imageUrl: string, prompt: string, model: string, format
   }
   
   // Validate model/format compatibility
-  if (!validateModelFormatCompatibility(model, format)) {
-    throw new Error(`Format '${format}' is not compatible with model '${model}'. SVG format is only available with Recraft-Vector (8000) model.`);
+  if (!validateModelFormatCompatibility(model, format, trace !== undefined)) {
+    throw new Error(formatCompatibilityMessage(model, format));
   }
   
   let filepath: string;
-  
+
   try {
     // Handle web project paths if specified
-    let projectBasePath: string | undefined;
+    let webLocation: WebAssetLocation | undefined;
     if (webProjectPath) {
-      projectBasePath = await processWebProjectPath(webProjectPath, projectType, assetPath);
+      webLocation = await processWebProjectPath(webProjectPath, projectType, assetPath);
     }
-    
-    // Generate a standardized file name for web assets
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const sanitizedPrompt = prompt.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_").toLowerCase();
-    const filename = `${sanitizedPrompt}_${model}.${format}`;
-    
-    if (outputPath) {
+
+    // Either an explicit file path, or a directory / library where the name comes from a filename template
+    let explicitPath: string | undefined;
+    let directory: string | undefined;
+    const configuredTemplate = filenameTemplate || DEFAULT_FILENAME_TEMPLATE;
+    let template = "";
+
+    if (outputPath && !(await isDirectoryPath(outputPath))) {
       // If outputPath is provided, ensure it has the correct extension
       const ext = path.extname(outputPath);
-      if (!ext) {
-        // If no extension provided, append the format
-        filepath = `${outputPath}.${format}`;
-      } else if (ext.slice(1).toLowerCase() !== format.toLowerCase()) {
+      let stem = ext ? outputPath.slice(0, -ext.length) : outputPath;
+      if (ext && ext.slice(1).toLowerCase() !== format.toLowerCase()) {
         // If extension doesn't match format, warn but use the specified format
         console.warn(`Warning: File extension ${ext} doesn't match specified format ${format}`);
-        filepath = outputPath.slice(0, -ext.length) + `.${format}`;
+      }
+      if (path.basename(stem).includes("{")) {
+        // The file name itself is a template, e.g. logo-{index}.png
+        directory = path.dirname(stem);
+        template = path.basename(stem);
+        validateFilenameTemplate(template);
       } else {
-        filepath = outputPath;
+        stem += index !== undefined ? `-${index}` : "";
+        explicitPath = `${stem}.${ext && ext.slice(1).toLowerCase() === format ? ext.slice(1) : format}`;
       }
-      
-      // Ensure the directory exists
-      await fs.mkdir(path.dirname(filepath), { recursive: true });
-    } else if (projectBasePath) {
+    } else if (outputPath) {
+      directory = outputPath;
+      template = configuredTemplate || DEFAULT_PROJECT_FILENAME_TEMPLATE;
+    } else if (webLocation) {
       // Web project path takes precedence over default
-      filepath = path.join(projectBasePath, filename);
+      directory = webLocation.directory;
+      template = configuredTemplate || DEFAULT_PROJECT_FILENAME_TEMPLATE;
     } else {
-      // Default behavior: save to STORAGE_DIR with timestamp
-      filepath = path.join(STORAGE_DIR, `${timestamp}_${model}_${sanitizedPrompt}.${format}`);
+      // Default behavior: save to the library's storage backend
+      template = configuredTemplate || DEFAULT_STORAGE_FILENAME_TEMPLATE;
     }
 
     // Fetch the image with retries
-    let response;
-    let retryCount = 0;
-    
-    while (retryCount < MAX_RETRIES) {
-      try {
-        // @ts-ignore - node-fetch doesn't support timeout in RequestInit, but this works at runtime
-        response = await fetch(imageUrl, { timeout: 30000 });
-        if (response.ok) break;
-        
-        // If we got a 429 (rate limit), wait longer before retrying
-        if (response.status === 429) {
-          const retryAfter = parseInt(response.headers.get('retry-after') || '5', 10);
-          await new Promise(r => setTimeout(r, retryAfter * 1000));
-        } else {
-          throw new Error(`Failed to fetch image: ${response.statusText} (${response.status})`);
+    const content = await downloadImage(imageUrl, options.signal);
+
+    let written: Buffer;
+    let dimensions: { width?: number, height?: number } = {};
+
+    let svgOptimization: SvgOptimizeReport | undefined;
+    // SVG markup before optimization, for component export
+    let svgSource: Buffer | undefined;
+
+    if (format === "svg") {
+      // Raster output is traced into a vector first, at the requested size
+      svgSource = content;
+      if (trace && !(await isSvgContent(content))) {
+        try {
+          const raster = resize
+            ? await sharp(content).resize(resize.width, resize.height, { fit: "cover", position: sharp.strategy.attention }).png().toBuffer()
+            : content;
+          svgSource = Buffer.from(await traceToSvg(raster, trace));
+        } catch (error) {
+          throw new Error(`Vectorization failed: ${(error as Error).message}`);
         }
-      } catch (error) {
-        if (retryCount >= MAX_RETRIES - 1) throw error;
-        
-        // Exponential backoff
-        const delay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
-        await new Promise(r => setTimeout(r, delay));
       }
-      
-      retryCount++;
-    }
-    
-    if (!response || !response.ok) {
-      throw new Error(`Failed to fetch image after ${MAX_RETRIES} attempts`);
-    }
 
-    const buffer = await response.arrayBuffer();
-    const content = Buffer.from(buffer);
+      // For SVG, optimize with the requested profile and save
+      const { data, ...report } = optimizeSvg(svgSource.toString('utf-8'), { profile: DEFAULT_SVG_PROFILE, ...svg }, defaultIdPrefix(prompt));
+      written = Buffer.from(data);
+      svgOptimization = report;
 
-    if (format === "svg") {
-      // For SVG, optimize and save
-      const svgString = content.toString('utf-8');
-      const result = optimize(svgString, {
-        multipass: true,
-        plugins: [
-          'preset-default',
-          'removeDimensions',
-          'removeViewBox',
-          'cleanupIds',
-        ],
-      });
-      await fs.writeFile(filepath, result.data);
+      // Dimensions come from the unoptimized SVG since some profiles remove them
+      try {
+        const { width, height } = await sharp(svgSource).metadata();
+        dimensions = { width, height };
+      } catch {
+        // Dimensions are informational only
+      }
     } else {
       // For raster formats, convert using sharp with better error handling
       try {
-        const image = sharp(content);
-        switch (format.toLowerCase()) {
-          case "png":
-            await image.png({ quality: 90 }).toFile(filepath);
-            break;
-          case "jpg":
-          case "jpeg":
-            await image.jpeg({ quality: 90 }).toFile(filepath);
-            break;
-          case "webp":
-            await image.webp({ quality: 90 }).toFile(filepath);
-            break;
-          default:
-            throw new Error(`Unsupported format: ${format}`);
+        let image = sharp(content);
+        if (resize) {
+          // Crop to the target aspect ratio around the most interesting region, then scale
+          image = image.resize(resize.width, resize.height, { fit: "cover", position: sharp.strategy.attention });
         }
+        const { data, info } = await encodeImage(image, format, quality).toBuffer({ resolveWithObject: true });
+        written = data;
+        dimensions = { width: info.width, height: info.height };
       } catch (error) {
         throw new Error(`Image processing failed: ${(error as Error).message}`);
       }
     }
 
-    return filepath;
+    // Name the file now that its content and dimensions are known
+    let destination: OutputDestination;
+    if (explicitPath) {
+      destination = { filepath: explicitPath };
+    } else {
+      const stem = renderFilenameTemplate(template, {
+        ...filenameValues(prompt, model, written, generationId),
+        index,
+        width: dimensions.width,
+        height: dimensions.height,
+      });
+      destination = directory
+        ? { filepath: path.join(directory, `${stem}.${format}`) }
+        : { library, storageKey: `${stem}.${format}` };
+    }
+    // Components are built from the unoptimized SVG, which still has its viewBox
+    let componentPath: string | undefined;
+    if (component && svgSource) {
+      const svgName = "storageKey" in destination ? destination.storageKey : destination.filepath;
+      const built = buildSvgComponent(svgSource.toString("utf-8"), svgName, component.framework, component.currentColor);
+      const componentDestination: OutputDestination = "storageKey" in destination
+        ? { library, storageKey: path.posix.join(path.posix.dirname(destination.storageKey), built.filename) }
+        : { filepath: path.join(path.dirname(destination.filepath), built.filename) };
+      componentPath = await writeOutputFile(componentDestination, Buffer.from(built.code), path.extname(built.filename).slice(1), overwrite);
+      if (component.replaceSvg) {
+        return { filepath: componentPath, component: componentPath };
+      }
+    }
+
+    filepath = await writeOutputFile(destination, written, format, overwrite);
+
+    await catalogImage(library, filepath, written, prompt, model, format, dimensions, imageUrl, generationId, details);
+
+    const web = webLocation && directory === webLocation.directory
+      ? webAssetFor(webLocation, filepath, written, format, prompt, dimensions)
+      : undefined;
+    return { filepath, web, component: componentPath, svgOptimization };
   } catch (error) {
+    if (error instanceof PathNotAllowedError || error instanceof FileExistsError) throw error;
     throw new Error(`Failed to save image: ${(error as Error).message}`);
   }
 }
 
-// List stored images
-async function listStoredImages(): Promise<string[]> {
+// Default breakpoints and formats for responsive image sets
+const DEFAULT_RESPONSIVE_WIDTHS = [320, 640, 1280];
+const DEFAULT_RESPONSIVE_FORMATS = ["avif", "webp", "png"];
+const RESPONSIVE_FORMATS = ["avif", "webp", "png", "jpg", "jpeg"];
+
+interface ResponsiveVariant {
+  format: string;
+  width: number;
+  height: number;
+  filepath: string;
+}
+
+interface ResponsiveImageSet {
+  variants: ResponsiveVariant[];
+  directory: string;
+  // Set when the variants were saved into a web project
+  web?: WebAssetLocation;
+}
+
+// Where and how saveResponsiveImageSet writes its files; same meaning as in SaveImageOptions
+type ResponsiveSetOptions = Omit<SaveImageOptions, "index" | "resize">;
+
+// Generate every width × format combination of an image through sharp
+async function saveResponsiveImageSet(imageUrl: string, prompt: string, model: string, widths: number[], formats: string[], options: ResponsiveSetOptions = {}): Promise<ResponsiveImageSet> {
+  const { outputPath, webProjectPath, projectType, assetPath, generationId, overwrite, filenameTemplate } = options;
+  const library = options.library || getLibrary();
+  const configuredTemplate = filenameTemplate || DEFAULT_FILENAME_TEMPLATE;
+  formats = formats.map(f => f.toLowerCase());
+  const unsupported = formats.filter(f => !RESPONSIVE_FORMATS.includes(f));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported responsive format(s): ${unsupported.join(', ')}. Supported formats are: ${RESPONSIVE_FORMATS.join(', ')}`);
+  }
+
   try {
-    const files = await fs.readdir(STORAGE_DIR);
-    return files.filter((file: string) => /\.(svg|png|jpe?g|webp)$/i.test(file));
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      return [];
+    const content = await downloadImage(imageUrl, options.signal);
+    // Variants are named <stem>-<width>w.<format>; the stem comes from output_path or the filename template
+    const stem = (template: string) => renderFilenameTemplate(template, filenameValues(prompt, model, content, generationId));
+
+    // Resolve the base path (directory + name stem) for all variants
+    let basePath: string;
+    let directory: string;
+    let web: WebAssetLocation | undefined;
+    let inStorage = false;
+
+    if (outputPath && !(await isDirectoryPath(outputPath))) {
+      const ext = path.extname(outputPath);
+      basePath = ext ? outputPath.slice(0, -ext.length) : outputPath;
+      directory = path.dirname(basePath);
+      if (path.basename(basePath).includes("{")) {
+        validateFilenameTemplate(path.basename(basePath));
+        basePath = path.join(directory, stem(path.basename(basePath)));
+      }
+    } else if (outputPath) {
+      directory = outputPath;
+      basePath = path.join(directory, stem(configuredTemplate || DEFAULT_PROJECT_FILENAME_TEMPLATE));
+    } else if (webProjectPath) {
+      // Throws if the framework's asset directory can't be created, rather than writing into the project root
+      web = (await processWebProjectPath(webProjectPath, projectType, assetPath))!;
+      directory = web.directory;
+      basePath = path.join(directory, stem(configuredTemplate || DEFAULT_PROJECT_FILENAME_TEMPLATE));
+    } else {
+      // Default store: basePath is a storage key prefix
+      basePath = stem(configuredTemplate || DEFAULT_STORAGE_FILENAME_TEMPLATE);
+      directory = library.storage.description;
+      inStorage = true;
+    }
+
+    const variants: ResponsiveVariant[] = [];
+
+    for (const format of formats) {
+      const seenWidths = new Set<number>();
+      for (const width of [...widths].sort((a, b) => a - b)) {
+        let encoded: { data: Buffer, info: sharp.OutputInfo };
+        try {
+          // Never upscale: widths beyond the source collapse onto the source width
+          const resized = sharp(content).resize({ width, withoutEnlargement: true });
+          encoded = await encodeImage(resized, format).toBuffer({ resolveWithObject: true });
+        } catch (error) {
+          throw new Error(`Image processing failed: ${(error as Error).message}`);
+        }
+        const { data, info } = encoded;
+        if (seenWidths.has(info.width)) continue;
+        seenWidths.add(info.width);
+
+        const target = `${basePath}-${info.width}w.${format}`;
+        const filepath = await writeOutputFile(inStorage ? { library, storageKey: target } : { filepath: target }, data, format, overwrite);
+        await catalogImage(library, filepath, data, prompt, model, format, { width: info.width, height: info.height }, imageUrl, generationId);
+        variants.push({ format, width: info.width, height: info.height, filepath });
+      }
     }
-    throw error;
+
+    return { variants, directory, web };
+  } catch (error) {
+    if (error instanceof PathNotAllowedError || error instanceof FileExistsError) throw error;
+    throw new Error(`Failed to save responsive image set: ${(error as Error).message}`);
   }
 }
 
-// Helper for handling API errors in a user-friendly way
-function handleApiError(error: any): EverArtError {
-  if (error.response) {
-    // The request was made and the server responded with a status code
-    // that falls out of the range of 2xx
-    if (error.response.status === 401 || error.response.status === 403) {
-      return {
-        type: EverArtErrorType.AUTHENTICATION_ERROR,
-        message: "Authentication failed. Please check your API key.",
-        details: error.response.data
-      };
-    } else if (error.response.status === 429) {
-      return {
-        type: EverArtErrorType.API_ERROR,
-        message: "Rate limit exceeded. Please try again later.",
-        details: error.response.data
-      };
+// Build <img srcset>, <picture> and JSX markup for a responsive image set
+function buildResponsiveMarkup(set: ResponsiveImageSet, alt: string, sizes: string, toUrl: (filepath: string) => string): { img: string, picture: string, jsx: string } {
+  const byFormat = new Map<string, ResponsiveVariant[]>();
+  for (const variant of set.variants) {
+    if (!byFormat.has(variant.format)) byFormat.set(variant.format, []);
+    byFormat.get(variant.format)!.push(variant);
+  }
+
+  const srcset = (variants: ResponsiveVariant[]) =>
+    variants.map(v => `${toUrl(v.filepath)} ${v.width}w`).join(", ");
+
+  // The last requested format acts as the universally supported fallback
+  const formats = [...byFormat.keys()];
+  const fallbackVariants = byFormat.get(formats[formats.length - 1])!;
+  const largest = fallbackVariants[fallbackVariants.length - 1];
+  const sources = formats.slice(0, -1).map(format => ({
+    type: getMimeType(format),
+    srcset: srcset(byFormat.get(format)!),
+  }));
+
+  const safeAlt = escapeAttribute(alt);
+  sizes = escapeAttribute(sizes);
+  const imgAttrs = `src="${toUrl(largest.filepath)}" srcset="${srcset(fallbackVariants)}" sizes="${sizes}" width="${largest.width}" height="${largest.height}" alt="${safeAlt}" loading="lazy" decoding="async"`;
+
+  const img = `<img ${imgAttrs}>`;
+  const picture = [
+    "<picture>",
+    ...sources.map(s => `  <source type="${s.type}" srcset="${s.srcset}" sizes="${sizes}">`),
+    `  <img ${imgAttrs}>`,
+    "</picture>",
+  ].join("\n");
+  const jsx = [
+    "<picture>",
+    ...sources.map(s => `  <source type="${s.type}" srcSet="${s.srcset}" sizes="${sizes}" />`),
+    `  <img src="${toUrl(largest.filepath)}" srcSet="${srcset(fallbackVariants)}" sizes="${sizes}" width={${largest.width}} height={${largest.height}} alt="${safeAlt}" loading="lazy" decoding="async" />`,
+    "</picture>",
+  ].join("\n");
+
+  return { img, picture, jsx };
+}
+
+// Image files in the storage backend
+const IMAGE_FILE_PATTERN = /\.(svg|png|jpe?g|webp|avif|gif)$/i;
+
+async function listStoredObjects(library: Library): Promise<StoredObject[]> {
+  const objects = await library.storage.list();
+  return objects.filter(object => IMAGE_FILE_PATTERN.test(object.key));
+}
+
+// List stored images
+async function listStoredImages(library: Library): Promise<string[]> {
+  return (await listStoredObjects(library)).map(object => object.key);
+}
+
+// A stored or catalogued image with whatever metadata is known about it
+interface ImageEntry {
+  filename: string;
+  path: string;
+  location: "storage" | "external";
+  format: string;
+  model?: string;
+  prompt?: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+  createdAt: Date;
+}
+
+interface ImageQuery {
+  format?: string;
+  model?: string;
+  prompt?: string;
+  since?: Date;
+  until?: Date;
+  location?: string;
+  sortBy?: "date" | "name" | "size";
+  order?: "asc" | "desc";
+  offset?: number;
+  limit?: number;
+}
+
+// Collect a library's stored images and catalogued images saved elsewhere into a single list
+async function listImageEntries(library: Library): Promise<ImageEntry[]> {
+  const objects = await listStoredObjects(library);
+  const records = await readCatalog(library.metadataDir);
+  const entries: ImageEntry[] = [];
+
+  const toEntry = (location: string, bytes: number, modified: Date, inStorage: boolean, record?: ImageRecord): ImageEntry => {
+    const filename = path.basename(location);
+    // Default storage names look like <timestamp>_<model>_<prompt>.<ext>
+    const modelFromName = filename.match(/^\d{4}-\d{2}-\d{2}T[\d-]+Z_(\d+)_/)?.[1];
+    return {
+      filename,
+      path: location,
+      location: inStorage ? "storage" : "external",
+      format: record?.format || path.extname(filename).slice(1).toLowerCase(),
+      model: record?.model || modelFromName,
+      prompt: record?.prompt,
+      width: record?.width,
+      height: record?.height,
+      bytes,
+      createdAt: record ? new Date(record.createdAt) : modified,
+    };
+  };
+
+  for (const object of objects) {
+    const location = normalizeLocation(library.storage.location(object.key));
+    const record = records.find(r => normalizeLocation(r.path) === location);
+    entries.push(toEntry(location, object.size, object.lastModified, true, record));
+  }
+
+  for (const record of records) {
+    // Images in the storage backend were listed above (or have been deleted)
+    if (library.storage.keyFor(record.path) !== undefined || record.path.includes("://")) continue;
+    try {
+      const stats = await fs.stat(record.path);
+      entries.push(toEntry(record.path, stats.size, stats.mtime, false, record));
+    } catch {
+      // File was moved or deleted since it was generated
+    }
+  }
+
+  return entries;
+}
+
+// Filter, sort and paginate image entries
+function queryImageEntries(entries: ImageEntry[], query: ImageQuery): { total: number, results: ImageEntry[] } {
+  const normalizeFormat = (format: string) => format.toLowerCase() === "jpeg" ? "jpg" : format.toLowerCase();
+  const model = query.model ? normalizeModelId(query.model) : undefined;
+
+  let results = entries.filter(entry => {
+    if (query.format && normalizeFormat(entry.format) !== normalizeFormat(query.format)) return false;
+    if (model && entry.model !== model) return false;
+    if (query.prompt && !(entry.prompt || entry.filename).toLowerCase().includes(query.prompt.toLowerCase())) return false;
+    if (query.since && entry.createdAt < query.since) return false;
+    if (query.until && entry.createdAt > query.until) return false;
+    if (query.location && query.location !== "all") {
+      if (query.location === "storage" || query.location === "external") {
+        if (entry.location !== query.location) return false;
+      } else {
+        // Any other value is treated as a local directory the image must be inside
+        if (entry.path.includes("://")) return false;
+        const relative = path.relative(path.resolve(query.location), entry.path);
+        if (relative.startsWith("..") || path.isAbsolute(relative)) return false;
+      }
+    }
+    return true;
+  });
+
+  const direction = query.order === "asc" ? 1 : -1;
+  results.sort((a, b) => {
+    switch (query.sortBy) {
+      case "name":
+        return direction * a.filename.localeCompare(b.filename);
+      case "size":
+        return direction * (a.bytes - b.bytes);
+      case "date":
+      default:
+        return direction * (a.createdAt.getTime() - b.createdAt.getTime());
+    }
+  });
+
+  const total = results.length;
+  const offset = query.offset || 0;
+  results = results.slice(offset, offset + (query.limit || total));
+  return { total, results };
+}
+
+// Helper for handling API errors in a user-friendly way
+function handleApiError(error: any): EverArtError {
+  if (error.response) {
+    // The request was made and the server responded with a status code
+    // that falls out of the range of 2xx
+    if (error.response.status === 401 || error.response.status === 403) {
+      return {
+        type: EverArtErrorType.AUTHENTICATION_ERROR,
+        message: "Authentication failed. Please check your API key.",
+        details: error.response.data
+      };
+    } else if (error.response.status === 429) {
+      return {
+        type: EverArtErrorType.API_ERROR,
+        message: "Rate limit exceeded. Please try again later.",
+        details: error.response.data
+      };
     } else {
       return {
         type: EverArtErrorType.API_ERROR,
@@ -360,6 +1258,880 @@ function handleApiError(error: any): EverArtError {
   }
 }
 
+// Create generations with a direct API request. The SDK only forwards image count, size and source image, so this
+// is used when the model has extra options from the config file, or the request has experimental parameters
+// (negative prompt, seed, guidance, steps), which a model accepts only if its config entry lists them.
+async function postGeneration(model: string, prompt: string, mode: "txt2img" | "img2img", body: Record<string, unknown>, signal?: AbortSignal): Promise<any[]> {
+  const response = await fetch(`${API_URL}/models/${encodeURIComponent(model)}/generations`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ prompt, type: mode, ...body }),
+    signal,
+  });
+  const data: any = await response.json().catch(() => undefined);
+  if (response.status === 401 || response.status === 403) {
+    throw new HttpStatusError(`EverArt API authentication failed (${response.status})`, response.status);
+  }
+  if (response.status === 429) {
+    throw new HttpStatusError(`EverArt API rate limit reached (${response.status})`, response.status,
+      parseRetryAfter(response.headers.get("retry-after")));
+  }
+  if (!response.ok || !Array.isArray(data?.generations)) {
+    throw new HttpStatusError(`Failed to create generation: ${data?.message || response.statusText} (${response.status})`, response.status);
+  }
+  return data.generations;
+}
+
+// Create a generation with the retry policy. Passing a source image URL switches to img2img mode. Requests go
+// through the SDK unless they carry model options or experimental parameters.
+export async function createGeneration(model: string, prompt: string, imageCount: number, options: { size?: ImageDimensions, sourceImageUrl?: string, settings?: GenerationSettings, signal?: AbortSignal } = {}): Promise<any[]> {
+  const { size = DEFAULT_GENERATION_SIZE, sourceImageUrl, settings = {}, signal } = options;
+  const mode = sourceImageUrl ? "img2img" : "txt2img";
+  // Model-specific request fields from the config file
+  const modelOptions = MODELS.models.get(model)?.options;
+  const direct = Object.keys(modelOptions ?? {}).length > 0 || Object.values(settings).some(value => value !== undefined);
+
+  return withRetry(attemptSignal => direct
+    ? postGeneration(model, prompt, mode, {
+      image_count: imageCount,
+      height: size.height,
+      width: size.width,
+      ...(sourceImageUrl ? { image: sourceImageUrl } : {}),
+      ...modelOptions,
+      negative_prompt: settings.negativePrompt,
+      seed: settings.seed,
+      guidance: settings.guidance,
+      steps: settings.steps,
+    }, attemptSignal)
+    : client.v1.generations.create(model, prompt, mode, {
+      imageCount,
+      height: size.height,
+      width: size.width,
+      ...(sourceImageUrl ? { image: sourceImageUrl } : {}),
+    }), RETRY_POLICY, { signal, description: "Generation request" });
+}
+
+// Content types accepted by the EverArt image upload endpoint
+const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+// Resolve an edit source given as a filename in a library or an absolute path to its location
+async function resolveSourceImage(image: string, library: Library): Promise<string> {
+  if (path.isAbsolute(image)) {
+    const filepath = await resolveAllowedPath(image, ALLOWED_ROOTS);
+    try {
+      await fs.access(filepath);
+    } catch {
+      throw new Error(`Source image not found: ${image}`);
+    }
+    return filepath;
+  }
+  if (!(await library.storage.exists(image))) {
+    throw new Error(`Source image not found: ${image}`);
+  }
+  return library.storage.location(image);
+}
+
+// Upload an image so it can be used as an img2img source and return its URL
+export async function uploadSourceImage(filepath: string, signal?: AbortSignal): Promise<string> {
+  let ext = path.extname(filepath).slice(1).toLowerCase();
+  let content = await readImage(filepath);
+
+  // Rasterize formats the upload endpoint does not accept (e.g. SVG)
+  if (!UPLOAD_CONTENT_TYPES[ext]) {
+    try {
+      content = await sharp(content).png().toBuffer();
+      ext = "png";
+    } catch (error) {
+      throw new Error(`Image processing failed: ${(error as Error).message}`);
+    }
+  }
+
+  const contentType = UPLOAD_CONTENT_TYPES[ext];
+  const filename = `${path.basename(filepath, path.extname(filepath))}.${ext}`;
+  const [upload] = await withRetry(() => client.v1.images.uploads([{ filename, content_type: contentType }]),
+    RETRY_POLICY, { signal, description: "Upload request" });
+  if (!upload?.upload_url || !upload?.file_url) {
+    throw new Error("Failed to get an upload URL for the source image");
+  }
+
+  await withRetry(async attemptSignal => {
+    const response = await fetch(upload.upload_url, {
+      method: "PUT",
+      headers: { "Content-Type": contentType },
+      body: content,
+      signal: attemptSignal,
+    });
+    if (!response.ok) {
+      throw new HttpStatusError(`Failed to upload source image: ${response.statusText} (${response.status})`, response.status,
+        parseRetryAfter(response.headers.get("retry-after")));
+    }
+  }, RETRY_POLICY, { signal, description: "Source image upload" });
+
+  return upload.file_url;
+}
+
+// Poll a generation until it finishes and return its image URL
+export async function waitForImageUrl(generationId: string, signal?: AbortSignal): Promise<string> {
+  return (await waitForGeneration(generationId, signal)).image_url;
+}
+
+// Poll a generation until it finishes with an image. Each status check is retried on its own;
+// polling stops at the policy's poll timeout or when the signal is aborted.
+async function waitForGeneration(generationId: string, signal?: AbortSignal): Promise<any> {
+  const completedGen = await pollUntil(async () => {
+    const generation = await withRetry(() => client.v1.generations.fetch(generationId),
+      RETRY_POLICY, { signal, description: "Generation status request" });
+    return generation.status === "STARTING" || generation.status === "PROCESSING" ? undefined : generation;
+  }, {
+    intervalMs: RETRY_POLICY.pollIntervalMs,
+    timeoutMs: RETRY_POLICY.pollTimeoutMs,
+    signal,
+    description: `Generation ${generationId}`,
+  });
+
+  const imgUrl = completedGen.image_url;
+  if (!imgUrl) {
+    throw new Error(`No image URL in the completed generation (status: ${completedGen.status})`);
+  }
+
+  return completedGen;
+}
+
+// Settings to record for a completed generation. The seed is an experimental parameter the API may ignore,
+// so it is only recorded, as reproducible, when the generation echoes it back.
+function recordedSettings(settings: GenerationSettings | undefined, generation: any): GenerationSettings | undefined {
+  const recorded = { ...settings, seed: Number.isInteger(generation?.seed) ? generation.seed as number : undefined };
+  return Object.values(recorded).some(value => value !== undefined) ? recorded : undefined;
+}
+
+// Validated arguments for a generate_image call
+interface GenerationParams {
+  prompt: string;
+  model: string;
+  format: string;
+  imageCount: number;
+  size: ImageDimensions;
+  targetSize?: ImageDimensions;
+  outputPath?: string;
+  webProjectPath?: string;
+  projectType?: string;
+  assetPath?: string;
+  // Library name; jobs persisted before libraries existed use the default library
+  library?: string;
+  overwrite?: OverwritePolicy;
+  filenameTemplate?: string;
+  component?: SvgComponentOptions;
+  svg?: SvgOptimizeOptions;
+  trace?: TraceOptions;
+  quality?: number;
+  settings?: GenerationSettings;
+  // Style preset name, and the prompt sent to the model after the style's fragments were added
+  style?: string;
+  modelPrompt?: string;
+}
+
+interface SavedImage {
+  filepath: string;
+  generationId: string;
+  // Set when the image was saved into a web project
+  framework?: string;
+  url?: string;
+  importPath?: string;
+  snippets?: UsageSnippet[];
+  // Exported React or Vue component
+  component?: string;
+  svgOptimization?: SvgOptimizeReport;
+  // Seed the API reported using, if it echoed one
+  seed?: number;
+}
+
+interface GenerationResult {
+  images: SavedImage[];
+  // Generations that failed while others in the same request succeeded
+  failures: { generationId: string, error: string }[];
+}
+
+// Progress hooks for a generation running as a background job, and cancellation
+interface GenerationProgress {
+  // Generation IDs from an earlier, interrupted run; creation is skipped when present
+  generationIds?: string[];
+  onStage?: (stage: string, generationIds?: string[]) => Promise<void>;
+  // Aborted when the job or the tool call is canceled; stops requests, polling and downloads
+  signal?: AbortSignal;
+}
+
+// Validate generate_image arguments
+export function validateGenerationArgs(args: any): { params?: GenerationParams, error?: EverArtError } {
+  // Validate required parameters
+  if (!args?.prompt || typeof args.prompt !== 'string' || args.prompt.trim() === '') {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: "Prompt is required and must be a non-empty string."
+    } };
+  }
+
+  const imageCount = args.image_count || 1;
+  if (!Number.isInteger(imageCount) || imageCount < 1 || imageCount > 10) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: "image_count must be a whole number between 1 and 10"
+    } };
+  }
+
+  const { style, error: styleError } = resolveStyleArg(args);
+  if (styleError) {
+    return { error: styleError };
+  }
+
+  // Validate model - combined IDs like "8000:Recraft-Vector" and model names are accepted
+  const { model: modelInfo, error: modelError } = resolveModelArg(args);
+  if (modelError) {
+    return { error: modelError };
+  }
+  // A style pins its model; an explicit model argument must agree with it
+  if (style?.model && args.model && modelInfo!.id !== style.model) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: `Style '${style.name}' uses model ${modelDisplayName(MODELS, style.model)}. Omit the model argument or choose another style.`
+    } };
+  }
+  const model = style?.model || modelInfo!.id;
+  const modelDefinition = MODELS.models.get(model)!;
+
+  const { trace, error: traceError } = resolveTraceArgs(args);
+  if (traceError) {
+    return { error: traceError };
+  }
+
+  if (style?.format && args.format && String(args.format).toLowerCase() !== style.format) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: `Style '${style.name}' uses format '${style.format}'. Omit the format argument or choose another style.`
+    } };
+  }
+
+  // Now we have the validated model ID
+  const format = args.format || style?.format || (trace ? "svg" : modelDefinition.formats[0]);
+
+  const supportedFormats = ["svg", "png", "jpg", "jpeg", "webp"];
+  if (!supportedFormats.includes(format.toLowerCase())) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: `Unsupported format: ${format}. Supported formats are: ${supportedFormats.join(", ")}`
+    } };
+  }
+
+  if (!validateModelFormatCompatibility(model, format, trace !== undefined)) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: formatCompatibilityMessage(model, format)
+    } };
+  }
+
+  const size = resolveImageSize(args, modelDefinition);
+  if (size.error) {
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: size.error
+    } };
+  }
+
+  const { settings: argSettings, error: settingsError } = resolveGenerationSettingsArgs(args);
+  if (settingsError) {
+    return { error: settingsError };
+  }
+  const settings = mergeStyleSettings(style, argSettings!);
+  const unsupported = unsupportedParameters(modelDefinition, settings);
+  if (unsupported.length > 0) {
+    const supporting = [...MODELS.models.values()].filter(m => unsupported.every(p => m.parameters.includes(p)));
+    return { error: {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: `${modelDefinition.name} (${model}) doesn't support ${unsupported.join(", ")}. ` +
+        `These parameters are experimental and only sent to models that list them under "parameters" in the config file.` +
+        (supporting.length > 0 ? ` Models that do: ${supporting.map(m => `${m.id}:${m.name}`).join(", ")}` : ``)
+    } };
+  }
+
+  const { library, error: libraryError } = resolveLibraryArg(args);
+  if (libraryError) {
+    return { error: libraryError };
+  }
+
+  const { overwrite, error: overwriteError } = resolveOverwriteArg(args);
+  if (overwriteError) {
+    return { error: overwriteError };
+  }
+
+  const { filenameTemplate, error: templateError } = resolveFilenameTemplateArg(args);
+  if (templateError) {
+    return { error: templateError };
+  }
+
+  const { svg, error: svgError } = resolveSvgArgs(args);
+  if (svgError) {
+    return { error: svgError };
+  }
+
+  const { quality, error: qualityError } = resolveQualityArg(args);
+  if (qualityError) {
+    return { error: qualityError };
+  }
+
+  let component: SvgComponentOptions | undefined;
+  if (args.component !== undefined) {
+    if (!SVG_COMPONENT_FRAMEWORKS.includes(args.component)) {
+      return { error: {
+        type: EverArtErrorType.VALIDATION_ERROR,
+        message: `Invalid component: ${args.component}. Supported components are: ${SVG_COMPONENT_FRAMEWORKS.join(", ")}`
+      } };
+    }
+    if (format.toLowerCase() !== "svg") {
+      return { error: {
+        type: EverArtErrorType.FORMAT_ERROR,
+        message: "Components can only be exported from SVG output. Use the Recraft-Vector (8000) model with format 'svg', or vectorize: true."
+      } };
+    }
+    component = {
+      framework: args.component as SvgComponentFramework,
+      replaceSvg: args.component_only === true,
+      currentColor: args.current_color === true,
+    };
+  }
+
+  return {
+    params: {
+      prompt: args.prompt,
+      model,
+      format,
+      imageCount,
+      size: size.generation,
+      targetSize: size.target,
+      outputPath: args.output_path,
+      webProjectPath: args.web_project_path,
+      projectType: args.project_type,
+      assetPath: args.asset_path,
+      library: library!.name,
+      overwrite,
+      filenameTemplate,
+      component,
+      svg,
+      trace,
+      quality,
+      settings: Object.values(settings).some(value => value !== undefined) ? settings : undefined,
+      style: style?.name,
+      modelPrompt: style ? applyStylePrompt(style, args.prompt) : undefined,
+    }
+  };
+}
+
+// Check output locations before spending a generation on them
+async function checkOutputLocation(outputPath?: string, webProjectPath?: string, projectType?: string, assetPath?: string): Promise<void> {
+  if (outputPath) await resolveAllowedPath(outputPath, ALLOWED_ROOTS);
+  if (webProjectPath) await resolveWebAssetDir(webProjectPath, projectType, assetPath);
+}
+
+// Hash of everything that determines a generation's output, recorded in the catalog so batches can skip
+// items whose files are already up to date
+function generationPromptHash(params: GenerationParams): string {
+  return hashContent(JSON.stringify({
+    prompt: params.modelPrompt || params.prompt,
+    model: params.model,
+    format: params.format.toLowerCase(),
+    size: params.targetSize || params.size,
+    settings: params.settings,
+    trace: params.trace,
+    destination: [params.outputPath, params.webProjectPath, params.assetPath, params.library],
+  }));
+}
+
+// Catalogued files generated with the given prompt hash that still exist
+async function findExistingOutputs(params: GenerationParams, promptHash: string): Promise<string[]> {
+  const records = await readCatalog(getLibrary(params.library).metadataDir);
+  const existing: string[] = [];
+  for (const record of records.filter(r => r.promptHash === promptHash)) {
+    const stored = findStoredLocation(record.path);
+    const exists = stored
+      ? await stored.library.storage.exists(stored.key)
+      : await fs.access(record.path).then(() => true, () => false);
+    if (exists) existing.push(record.path);
+  }
+  return existing;
+}
+
+// Create, poll and save a generation
+export async function executeGeneration(params: GenerationParams, progress: GenerationProgress = {}): Promise<GenerationResult> {
+  const { signal } = progress;
+  const checkCanceled = () => signal?.throwIfAborted();
+
+  let generationIds = progress.generationIds;
+  if (!generationIds || generationIds.length === 0) {
+    await checkOutputLocation(params.outputPath, params.webProjectPath, params.projectType, params.assetPath);
+    await progress.onStage?.("creating");
+    const generation = await createGeneration(params.model, params.modelPrompt || params.prompt, params.imageCount, {
+      size: params.size,
+      settings: params.settings,
+      signal,
+    });
+    generationIds = generation.map(g => g.id as string);
+  }
+  checkCanceled();
+
+  // Poll and save every generation concurrently
+  await progress.onStage?.("polling", generationIds);
+  const numbered = generationIds.length > 1;
+  const settled = await Promise.allSettled(generationIds.map(async (generationId, i) => {
+    const completed = await waitForGeneration(generationId, signal);
+    checkCanceled();
+    const settings = recordedSettings(params.settings, completed);
+
+    // Save image locally with specified format and path
+    const saved = await saveImage(completed.image_url, params.prompt, params.model, params.format, {
+      outputPath: params.outputPath,
+      webProjectPath: params.webProjectPath,
+      projectType: params.projectType,
+      assetPath: params.assetPath,
+      generationId,
+      index: numbered ? i + 1 : undefined,
+      resize: params.targetSize,
+      library: getLibrary(params.library),
+      overwrite: params.overwrite,
+      filenameTemplate: params.filenameTemplate,
+      component: params.component,
+      svg: params.svg,
+      trace: params.trace,
+      quality: params.quality,
+      details: { settings, style: params.style, modelPrompt: params.modelPrompt, promptHash: generationPromptHash(params) },
+      signal,
+    });
+
+    return {
+      filepath: saved.filepath,
+      generationId,
+      framework: saved.web?.framework,
+      url: saved.web?.url,
+      importPath: saved.web?.importPath,
+      snippets: saved.web?.snippets,
+      component: saved.component,
+      svgOptimization: saved.svgOptimization,
+      seed: settings?.seed,
+    };
+  }));
+  checkCanceled();
+
+  const images: SavedImage[] = [];
+  const failures: GenerationResult["failures"] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      images.push(outcome.value);
+    } else {
+      failures.push({ generationId: generationIds![i], error: (outcome.reason as Error)?.message || String(outcome.reason) });
+    }
+  });
+
+  // Only fail the whole request when nothing could be saved
+  if (images.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return { images, failures };
+}
+
+// Human-readable summary of a completed generation
+function formatGenerationResult(params: GenerationParams, result: GenerationResult): string {
+  let text = `Generation details:\n` +
+    `• Model: ${modelDisplayName(MODELS, params.model)}\n` +
+    `• Prompt: "${params.prompt}"\n` +
+    (params.style ? `• Style: ${params.style}\n` : ``) +
+    (params.settings?.negativePrompt ? `• Negative prompt: "${params.settings.negativePrompt}"\n` : ``) +
+    (params.settings?.seed !== undefined
+      ? `• Seed: ${params.settings.seed}${result.images.every(image => image.seed === params.settings!.seed) ? `` : ` (not confirmed by the API, so not recorded)`}\n`
+      : ``) +
+    (params.settings?.guidance !== undefined ? `• Guidance: ${params.settings.guidance}\n` : ``) +
+    (params.settings?.steps !== undefined ? `• Steps: ${params.settings.steps}\n` : ``) +
+    `• Format: ${params.format.toUpperCase()}\n` +
+    `• Size: ${params.targetSize ? `${params.targetSize.width}×${params.targetSize.height}` : `${params.size.width}×${params.size.height}`}\n`;
+
+  if (result.images.length === 1) {
+    const [image] = result.images;
+    text += `• Saved to: ${image.filepath}` +
+      (image.component && image.component !== image.filepath ? `\n• Component: ${image.component}` : ``) +
+      (image.url ? `\n• Framework: ${image.framework}\n• URL path: ${image.url}` : ``) +
+      (image.importPath ? `\n• Framework: ${image.framework}\n• Import path: ${image.importPath}` : ``);
+  } else {
+    text += `• Saved ${result.images.length} images:\n` +
+      result.images.map((image, i) =>
+        `  ${i + 1}. ${image.filepath}` + (image.url || image.importPath ? ` (${image.url || image.importPath})` : ``) +
+        (image.component && image.component !== image.filepath ? `\n     Component: ${image.component}` : ``)
+      ).join("\n") +
+      (result.images[0].framework ? `\n• Framework: ${result.images[0].framework}` : ``);
+  }
+
+  const { svgOptimization } = result.images[0];
+  if (svgOptimization) {
+    text += `\n• SVG optimization (${svgOptimization.profile}): ${formatSizeChange(svgOptimization)}` +
+      (result.images.length > 1 ? ` for the first image` : ``);
+  }
+
+  if (result.failures.length > 0) {
+    text += `\n\n⚠️ ${result.failures.length} image(s) failed:\n` +
+      result.failures.map(f => `• ${f.generationId}: ${f.error}`).join("\n");
+  }
+
+  // Usage snippets for the first image; the others only differ in their URL
+  const { snippets } = result.images[0];
+  if (snippets && snippets.length > 0) {
+    text += `\n\nUsage${result.images.length > 1 ? ` (${path.basename(result.images[0].filepath)})` : ``}:\n\n` +
+      formatUsageSnippets(snippets);
+  }
+
+  return text;
+}
+
+// Background runner for generate_image jobs
+const runGenerateImageJob: JobRunner = (job, signal) =>
+  executeGeneration(job.params as GenerationParams, {
+    generationIds: job.generationIds,
+    onStage: async (stage, generationIds) => {
+      await updateJob(job.id, generationIds ? { stage, generationIds } : { stage });
+    },
+    signal,
+  });
+
+// A manifest item after validation; items that failed validation keep the error for the report
+interface BatchEntry {
+  id: string;
+  prompt?: string;
+  params?: GenerationParams;
+  error?: string;
+}
+
+// Validated generate_batch arguments
+interface BatchParams {
+  items: BatchEntry[];
+  concurrency: number;
+  // Regenerate items even when their files are up to date
+  force: boolean;
+}
+
+// Validate every manifest item as generate_image arguments. Invalid items fail on their own.
+function prepareBatch(manifest: BatchManifest, concurrency: number, force: boolean): BatchParams {
+  return {
+    items: manifest.items.map(item => {
+      const { params, error } = validateGenerationArgs(item.args);
+      return {
+        id: item.id,
+        prompt: typeof item.args.prompt === "string" ? item.args.prompt : undefined,
+        params,
+        error: error?.message,
+      };
+    }),
+    concurrency,
+    force,
+  };
+}
+
+// Resolve the manifest, manifest_path, concurrency and force arguments of generate_batch
+async function resolveBatchArgs(args: any): Promise<{ batch?: BatchParams, error?: EverArtError }> {
+  const validationError = (message: string) => ({ error: { type: EverArtErrorType.VALIDATION_ERROR, message } });
+  if ((args?.manifest === undefined) === (args?.manifest_path === undefined)) {
+    return validationError("Provide either manifest or manifest_path");
+  }
+  if (args.force !== undefined && typeof args.force !== "boolean") {
+    return validationError("force must be true or false");
+  }
+
+  try {
+    let manifest: BatchManifest;
+    if (args.manifest_path !== undefined) {
+      if (typeof args.manifest_path !== "string" || !path.isAbsolute(args.manifest_path)) {
+        return validationError("manifest_path must be an absolute path to a JSON or YAML file");
+      }
+      manifest = await loadManifest(await resolveAllowedPath(args.manifest_path, ALLOWED_ROOTS));
+    } else {
+      // Inline manifests may be given as an object or as JSON/YAML text
+      manifest = buildManifest(typeof args.manifest === "string" ? parseManifestText(args.manifest) : args.manifest);
+    }
+    const concurrency = args.concurrency !== undefined ? resolveBatchConcurrency(args.concurrency) : manifest.concurrency;
+    return { batch: prepareBatch(manifest, concurrency, args.force === true) };
+  } catch (error) {
+    return validationError((error as Error).message);
+  }
+}
+
+// Generate one manifest item, or skip it when its files exist with a matching prompt hash.
+// Failures are reported on the item; only cancellation stops the batch.
+async function executeBatchItem(entry: BatchEntry, force: boolean, signal?: AbortSignal): Promise<BatchItemResult> {
+  const result: BatchItemResult = { id: entry.id, status: "failed", prompt: entry.prompt };
+  if (!entry.params) {
+    return { ...result, error: entry.error };
+  }
+
+  try {
+    if (!force) {
+      const existing = await findExistingOutputs(entry.params, generationPromptHash(entry.params));
+      if (existing.length >= entry.params.imageCount) {
+        return { ...result, status: "skipped", files: existing };
+      }
+    }
+    signal?.throwIfAborted();
+
+    const generation = await executeGeneration(entry.params, { signal });
+    const files = generation.images.map(image => image.filepath);
+    if (generation.failures.length > 0) {
+      return {
+        ...result,
+        files,
+        error: `${generation.failures.length} of ${entry.params.imageCount} images failed: ` +
+          generation.failures.map(f => f.error).join("; "),
+      };
+    }
+    return { ...result, status: "generated", files };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return { ...result, error: classifyGenerationError(error).message };
+  }
+}
+
+// Run a batch with bounded concurrency and report every item
+async function executeBatch(batch: BatchParams, progress: Omit<GenerationProgress, "generationIds"> = {}): Promise<BatchItemResult[]> {
+  const { signal } = progress;
+  let finished = 0;
+  await progress.onStage?.(`0/${batch.items.length} items`);
+  return runWithConcurrency(batch.items, batch.concurrency, async entry => {
+    signal?.throwIfAborted();
+    const result = await executeBatchItem(entry, batch.force, signal);
+    await progress.onStage?.(`${++finished}/${batch.items.length} items`);
+    return result;
+  });
+}
+
+// Background runner for generate_batch jobs. A resumed batch skips the items that finished before the restart.
+const runGenerateBatchJob: JobRunner = (job, signal) =>
+  executeBatch(job.params as BatchParams, {
+    onStage: async stage => {
+      await updateJob(job.id, { stage });
+    },
+    signal,
+  });
+
+// Runners for each job type, used to resume interrupted jobs after a restart
+const JOB_RUNNERS: Record<string, JobRunner> = {
+  generate_image: runGenerateImageJob,
+  generate_batch: runGenerateBatchJob,
+};
+
+// Human-readable summary of a job
+function formatJob(job: Job): string {
+  let text = `• Job ID: ${job.id}\n` +
+    `• Type: ${job.type}\n` +
+    `• Status: ${job.status}${job.stage ? ` (${job.stage})` : ""}\n` +
+    `• Created: ${job.createdAt}\n` +
+    `• Updated: ${job.updatedAt}`;
+  if (job.status === "succeeded" && job.result && job.type === "generate_image") {
+    text += `\n\n` + formatGenerationResult(job.params as GenerationParams, job.result as GenerationResult);
+  } else if (job.status === "succeeded" && job.result && job.type === "generate_batch") {
+    text += `\n\n` + formatBatchReport(job.result as BatchItemResult[]);
+  } else if (job.status === "failed" && job.error) {
+    text += `\n• Error: ${job.error}`;
+  }
+  return text;
+}
+
+// Categorize generation errors for better user feedback
+export function classifyGenerationError(error: unknown): EverArtError {
+  if (error instanceof PathNotAllowedError || error instanceof InvalidStorageKeyError || error instanceof UnknownFrameworkError) {
+    return {
+      type: EverArtErrorType.VALIDATION_ERROR,
+      message: error.message
+    };
+  }
+  if (error instanceof FileExistsError) {
+    return {
+      type: EverArtErrorType.STORAGE_ERROR,
+      message: error.message
+    };
+  }
+
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    if (error.message.includes("SVG format")) {
+      return {
+        type: EverArtErrorType.FORMAT_ERROR,
+        message: error.message
+      };
+    } else if (message.includes("failed to fetch image")) {
+      return {
+        type: EverArtErrorType.NETWORK_ERROR,
+        message: "Failed to download the generated image. Please check your internet connection and try again."
+      };
+    } else if (message.includes("rate limit")) {
+      return {
+        type: EverArtErrorType.API_ERROR,
+        message: "EverArt API rate limit reached. Please try again later."
+      };
+    } else if (error.name === "EverArtUnauthorizedError" || error.name === "EverArtForbiddenError" ||
+        message.includes("unauthorized") || message.includes("authentication")) {
+      return {
+        type: EverArtErrorType.AUTHENTICATION_ERROR,
+        message: "API authentication failed. Please check your EverArt API key."
+      };
+    }
+  }
+
+  // Generic error handling
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return {
+    type: EverArtErrorType.UNKNOWN_ERROR,
+    message: errorMessage
+  };
+}
+
+// Error response for a failed generation, logged with the full error
+function generationErrorResponse(error: unknown): { content: any[], isError: boolean } {
+  console.error("Detailed error:", error);
+  return errorResponse(classifyGenerationError(error));
+}
+
+// Schema for the library argument of tools that read or write stored images
+function librarySchema(description: string) {
+  return {
+    type: "string",
+    enum: [...libraries.keys()],
+    description: `${description} Defaults to '${defaultLibraryName}'.`,
+  };
+}
+
+// Schema for the filename_template argument of tools that save generated images
+function filenameTemplateSchema() {
+  return {
+    type: "string",
+    description: `File name (without extension) for images saved to a library, web project or output directory. ` +
+      `Tokens: ${FILENAME_TOKENS.map(t => `{${t}}`).join(", ")}, e.g. "{slug}-{width}w-{hash}". ` +
+      `Defaults to ${DEFAULT_FILENAME_TEMPLATE ? `"${DEFAULT_FILENAME_TEMPLATE}"` : `"${DEFAULT_PROJECT_FILENAME_TEMPLATE}" in projects and directories and "${DEFAULT_STORAGE_FILENAME_TEMPLATE}" in libraries`}.`,
+  };
+}
+
+// Schema for the overwrite argument of tools that write files
+function overwriteSchema() {
+  return {
+    type: "string",
+    enum: OVERWRITE_POLICIES,
+    description: `What to do when an output file already exists: 'fail', 'rename' (save as name-1.ext, name-2.ext, ...) or 'replace'. Defaults to '${DEFAULT_OVERWRITE_POLICY}'.`,
+  };
+}
+
+// Schema for the SVG optimization arguments of tools that write SVGs
+function svgSchemas() {
+  return {
+    svg_profile: {
+      type: "string",
+      enum: [...SVG_PROFILES],
+      description: `svgo profile for SVG output: 'none' (unchanged), 'safe' (lossless, keeps ids, titles and viewBox), ` +
+        `'aggressive' (rounded coordinates, no fixed dimensions) or 'icon' (for inlining: no styles, scripts or bitmaps, prefixed ids). Defaults to '${DEFAULT_SVG_PROFILE}'.`,
+    },
+    svg_overrides: {
+      type: "object",
+      additionalProperties: { type: "boolean" },
+      description: "Turn individual svgo plugins on or off on top of the profile, e.g. {\"removeDimensions\": true, \"convertColors\": false}.",
+    },
+    svg_id_prefix: {
+      type: "string",
+      description: "Prefix ids and class names with this string so several inline SVGs can share a page. The 'icon' profile uses the file name or prompt by default.",
+    },
+  };
+}
+
+// Schema for the quality argument of tools that write raster images
+function qualitySchema() {
+  return {
+    type: "number",
+    minimum: 1,
+    maximum: 100,
+    description: `Encoder quality for raster output (1-100). Defaults to ${DEFAULT_QUALITY.png} for PNG, JPEG and WebP and ${DEFAULT_QUALITY.avif} for AVIF; PNG and GIF use it to choose the palette size.`,
+  };
+}
+
+// Schema for the vectorize arguments of tools that generate images
+function traceSchemas() {
+  return {
+    vectorize: {
+      type: "boolean",
+      description: "Trace the generated raster image into a multi-colour SVG, so any model can produce vector output. " +
+        "Defaults format to 'svg'. Works best for flat artwork such as logos and icons; the Recraft-Vector (8000) model needs no tracing.",
+    },
+    vector_colors: {
+      type: "number",
+      minimum: MIN_TRACE_COLORS,
+      maximum: MAX_TRACE_COLORS,
+      description: `Number of colours the image is reduced to before tracing (${MIN_TRACE_COLORS}-${MAX_TRACE_COLORS}). Fewer colours give smaller, flatter SVGs. Defaults to ${DEFAULT_TRACE_COLORS}.`,
+    },
+    vector_detail: {
+      type: "string",
+      enum: [...TRACE_DETAIL_LEVELS],
+      description: "How closely paths follow the image: 'low' (smooth, small files), 'medium' or 'high' (keeps fine detail, larger files). Defaults to 'medium'.",
+    },
+  };
+}
+
+// Schema for the generation parameters of generate_image, naming the models that accept each one
+function generationSettingsSchemas() {
+  const supportedBy = (parameter: GenerationParameter) => {
+    const ids = [...MODELS.models.values()].filter(model => model.parameters.includes(parameter)).map(model => `${model.id}:${model.name}`);
+    return `Experimental: ${ids.length > 0 ? `enabled for ${ids.join(", ")}` : `no model enables it`} ("parameters" in the config file).`;
+  };
+  return {
+    negative_prompt: {
+      type: "string",
+      description: `What the image should not contain, e.g. 'text, watermark, blurry'. ${supportedBy("negative_prompt")}`,
+    },
+    seed: {
+      type: "number",
+      minimum: 0,
+      description: `Random seed. Recorded in the catalog only if the API confirms it was used. ${supportedBy("seed")}`,
+    },
+    guidance: {
+      type: "number",
+      description: `How closely the image follows the prompt (greater than 0, at most 30). Higher values are more literal. ${supportedBy("guidance")}`,
+    },
+    steps: {
+      type: "number",
+      minimum: 1,
+      maximum: 150,
+      description: `Number of denoising steps (1-150). More steps add detail and take longer. ${supportedBy("steps")}`,
+    },
+  };
+}
+
+// Schema for the style argument, listing the configured style presets
+function styleSchema() {
+  const styles = [...STYLES.values()];
+  return {
+    type: "string",
+    ...(styles.length > 0 ? { enum: styles.map(style => style.name) } : {}),
+    description: "Named style preset from the config file. Adds the style's prompt fragments and default parameters, and pins its model and format. " +
+      (styles.length > 0
+        ? `Available styles: ${styles.map(style => style.description ? `${style.name} (${style.description})` : style.name).join(", ")}.`
+        : `No styles are configured.`),
+  };
+}
+
+// Schema for the project_type argument of tools that save into web projects
+function projectTypeSchema() {
+  return {
+    type: "string",
+    description: `Web framework of web_project_path, which decides the public asset directory: ${WEB_FRAMEWORKS.map(f => f.id).join(", ")}. ` +
+      `Defaults to 'auto', which detects it from package.json dependencies, framework config files and existing public/ or static/ directories.`,
+  };
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
     {
@@ -368,11 +2140,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         "Generate images using EverArt Models, optimized for web development. " +
         "Supports web project paths, responsive formats, and inline preview. " +
         "Available models:\n" +
-        "- 5000:FLUX1.1: Standard quality\n" +
-        "- 9000:FLUX1.1-ultra: Ultra high quality\n" +
-        "- 6000:SD3.5: Stable Diffusion 3.5\n" +
-        "- 7000:Recraft-Real: Photorealistic style\n" +
-        "- 8000:Recraft-Vector: Vector art style (SVG format)",
+        formatModelList(MODELS) + "\n" +
+        "Other models can produce SVG with vectorize: true, which traces the raster output.",
       inputSchema: {
         type: "object",
         properties: {
@@ -382,51 +2151,506 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           },
           model: {
             type: "string",
-            description:
-              "Model ID (5000:FLUX1.1, 9000:FLUX1.1-ultra, 6000:SD3.5, 7000:Recraft-Real, 8000:Recraft-Vector)",
-            default: "5000",
+            description: `Model ID (${formatModelIds(MODELS)}). Use list_models for details.`,
+            default: MODELS.defaultModel,
           },
           format: {
             type: "string",
-            description: "Output format (svg, png, jpg, webp). Note: Vector format (svg) is only available with Recraft-Vector (8000) model.",
-            default: "svg"
+            description: "Output format (svg, png, jpg, webp). Defaults to the style's format, 'svg' with vectorize: true, or the model's first format ('svg' for vector models such as Recraft-Vector (8000), 'png' for others). " +
+              "Note: Vector format (svg) is only available with vector models, or with vectorize: true.",
           },
+          style: styleSchema(),
+          ...generationSettingsSchemas(),
           output_path: {
             type: "string",
-            description: "Optional: Custom output path for the generated image. If not provided, image will be saved in the default storage directory.",
+            description: "Optional: Custom output file path for the generated image, a directory (ending in '/') to save it in using filename_template, or a path whose file name is a template, e.g. 'logos/logo-{index}.svg'. If not provided, image will be saved in the library.",
           },
           web_project_path: {
             type: "string",
             description: "Path to web project root folder for storing images in appropriate asset directories.",
           },
-          project_type: {
-            type: "string",
-            description: "Web project type to determine appropriate asset directory structure (e.g., 'react', 'vue', 'html', 'next').",
-          },
+          project_type: projectTypeSchema(),
           asset_path: {
             type: "string",
-            description: "Optional subdirectory within the web project's asset structure for storing generated images.",
+            description: "Optional subdirectory of the web project's public directory for storing generated images (default: the framework's image directory, e.g. 'images'). In Vite projects, a path starting with 'src/' (e.g. 'src/assets') saves into the source tree and returns a static import snippet.",
           },
           image_count: {
             type: "number",
-            description: "Number of images to generate",
+            minimum: 1,
+            maximum: 10,
+            description: "Number of images to generate (a whole number from 1 to 10)",
             default: 1,
           },
+          width: {
+            type: "number",
+            description: "Output width in pixels. Raster images are cropped and resized to the exact size when the model can't produce it.",
+          },
+          height: {
+            type: "number",
+            description: "Output height in pixels. Raster images are cropped and resized to the exact size when the model can't produce it.",
+          },
+          aspect_ratio: {
+            type: "string",
+            description: "Output aspect ratio, e.g. '16:9', '4:3' or '1.91:1'. Combine with width or height to set the other side.",
+          },
+          size_preset: {
+            type: "string",
+            enum: Object.keys(SIZE_PRESETS),
+            description: "Named web size preset: " +
+              Object.entries(SIZE_PRESETS).map(([name, p]) => `${name} (${p.width}×${p.height}, ${p.description})`).join(", ") +
+              ". width, height or aspect_ratio override the preset.",
+          },
+          open_viewer: {
+            type: "boolean",
+            description: "Open the image in the desktop image viewer. Defaults to true unless the server runs headless (EVERART_HEADLESS, CI, or no display).",
+          },
+          async: {
+            type: "boolean",
+            description: "Return immediately with a job ID instead of waiting for the image. Use get_job_status to retrieve the result.",
+            default: false,
+          },
+          library: librarySchema("Image library to save to when no output_path or web_project_path is given."),
+          overwrite: overwriteSchema(),
+          filename_template: filenameTemplateSchema(),
+          component: {
+            type: "string",
+            enum: [...SVG_COMPONENT_FRAMEWORKS],
+            description: "SVG output only: also export the image as a typed React (.tsx) or Vue (.vue) component with size, className/class and title props, named after the SVG file and saved next to it.",
+          },
+          component_only: {
+            type: "boolean",
+            description: "Save only the component, without the .svg file.",
+            default: false,
+          },
+          current_color: {
+            type: "boolean",
+            description: "Replace the component's fill and stroke colours with currentColor and add a color prop, so the icon follows the text colour.",
+            default: false,
+          },
+          quality: qualitySchema(),
+          ...svgSchemas(),
+          ...traceSchemas(),
         },
         required: ["prompt"],
       },
     },
     {
-      name: "list_images",
-      description: "List all stored images",
+      name: "generate_batch",
+      description:
+        "Generate many images from a JSON or YAML manifest with bounded concurrency. Each item takes generate_image arguments " +
+        "(prompt, model, format, style, size or width/height, output_path, ...) merged over the manifest's defaults. " +
+        "Items whose files already exist with a matching prompt hash are skipped, and every item is reported as generated, skipped or failed.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          manifest_path: {
+            type: "string",
+            description: "Absolute path to a .json, .yaml or .yml manifest. Relative output_path and web_project_path values in it are resolved against its directory.",
+          },
+          manifest: {
+            type: ["object", "array", "string"],
+            description: "Inline manifest instead of manifest_path: { defaults?, concurrency?, items: [...] }, a list of items, or the same as JSON or YAML text. " +
+              "Item fields: id, prompt, size ('1200x630' or a size preset name) and any generate_image argument.",
+          },
+          concurrency: {
+            type: "number",
+            minimum: 1,
+            maximum: MAX_BATCH_CONCURRENCY,
+            description: `Items generated at once (1-${MAX_BATCH_CONCURRENCY}). Overrides the manifest's concurrency; defaults to 3.`,
+          },
+          force: {
+            type: "boolean",
+            description: "Regenerate every item, even when its files are up to date.",
+            default: false,
+          },
+          async: {
+            type: "boolean",
+            description: "Return immediately with a job ID instead of waiting for the batch. Use get_job_status to retrieve the report.",
+            default: false,
+          },
+        },
+      },
+    },
+    {
+      name: "get_job_status",
+      description: "Get the status and result of a background generation job",
+      inputSchema: {
+        type: "object",
+        properties: {
+          job_id: {
+            type: "string",
+            description: "Job ID returned by generate_image with async: true",
+          },
+        },
+        required: ["job_id"],
+      },
+    },
+    {
+      name: "list_jobs",
+      description: "List background generation jobs, newest first",
+      inputSchema: {
+        type: "object",
+        properties: {
+          status: {
+            type: "string",
+            enum: ["queued", "running", "succeeded", "failed", "canceled"],
+            description: "Only include jobs with this status",
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of jobs to return",
+            default: 20,
+          },
+        },
+      },
+    },
+    {
+      name: "cancel_job",
+      description: "Cancel a queued or running background generation job",
+      inputSchema: {
+        type: "object",
+        properties: {
+          job_id: {
+            type: "string",
+            description: "Job ID to cancel",
+          },
+        },
+        required: ["job_id"],
+      },
+    },
+    {
+      name: "list_models",
+      description: "List the available EverArt models with their output formats, size limits, relative cost and whether they can edit images",
       inputSchema: {
         type: "object",
         properties: {},
       },
     },
+    {
+      name: "generate_responsive_set",
+      description:
+        "Generate a single image and export it as a responsive set of widths × formats (e.g. 320/640/1280 in avif, webp and png). " +
+        "Returns ready-to-paste <img srcset>, <picture> and JSX markup. Uses the same models as generate_image.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          prompt: {
+            type: "string",
+            description: "Text description of desired image",
+          },
+          model: {
+            type: "string",
+            description: `Model ID (${formatModelIds(MODELS)}). Use list_models for details.`,
+            default: MODELS.defaultModel,
+          },
+          widths: {
+            type: "array",
+            items: { type: "number" },
+            description: "Output widths in pixels. Widths larger than the generated image are not upscaled.",
+            default: DEFAULT_RESPONSIVE_WIDTHS,
+          },
+          formats: {
+            type: "array",
+            items: { type: "string" },
+            description: "Output formats (avif, webp, png, jpg). The last format is used as the <img> fallback.",
+            default: DEFAULT_RESPONSIVE_FORMATS,
+          },
+          sizes: {
+            type: "string",
+            description: "Value for the sizes attribute in the generated markup",
+            default: "100vw",
+          },
+          alt: {
+            type: "string",
+            description: "Alt text for the generated markup. Defaults to the prompt.",
+          },
+          output_path: {
+            type: "string",
+            description: "Optional: Base path for the generated files, or a directory (ending in '/') to name them in using filename_template. Each variant is saved as <base>-<width>w.<format>.",
+          },
+          web_project_path: {
+            type: "string",
+            description: "Path to web project root folder for storing images in appropriate asset directories.",
+          },
+          project_type: projectTypeSchema(),
+          asset_path: {
+            type: "string",
+            description: "Optional subdirectory of the web project's public directory for storing generated images (default: the framework's image directory, e.g. 'images'). In Vite projects, a path starting with 'src/' (e.g. 'src/assets') saves into the source tree and returns a static import snippet.",
+          },
+          library: librarySchema("Image library to save to when no output_path or web_project_path is given."),
+          overwrite: overwriteSchema(),
+          filename_template: filenameTemplateSchema(),
+        },
+        required: ["prompt"],
+      },
+    },
+    {
+      name: "edit_image",
+      description:
+        "Create a variation of an existing image guided by a prompt (image-to-image). " +
+        "The source can be a stored image filename (see list_images) or an absolute path. " +
+        "Uses the same models and output options as generate_image.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          image: {
+            type: "string",
+            description: "Stored image filename or absolute path of the source image",
+          },
+          prompt: {
+            type: "string",
+            description: "Text description of the desired changes or result",
+          },
+          model: {
+            type: "string",
+            description: `Model ID (${formatModelIds(MODELS)}). Use list_models for details.`,
+            default: MODELS.defaultModel,
+          },
+          format: {
+            type: "string",
+            description: "Output format (svg, png, jpg, webp). Defaults to the source image format when compatible with the model.",
+          },
+          output_path: {
+            type: "string",
+            description: "Optional: Custom output file path or directory (ending in '/') for the edited image, as for generate_image. If not provided, image will be saved in the library.",
+          },
+          web_project_path: {
+            type: "string",
+            description: "Path to web project root folder for storing images in appropriate asset directories.",
+          },
+          project_type: projectTypeSchema(),
+          asset_path: {
+            type: "string",
+            description: "Optional subdirectory of the web project's public directory for storing generated images (default: the framework's image directory, e.g. 'images'). In Vite projects, a path starting with 'src/' (e.g. 'src/assets') saves into the source tree and returns a static import snippet.",
+          },
+          open_viewer: {
+            type: "boolean",
+            description: "Open the image in the desktop image viewer. Defaults to true unless the server runs headless (EVERART_HEADLESS, CI, or no display).",
+          },
+          library: librarySchema("Library the source image is read from and the result is saved to."),
+          overwrite: overwriteSchema(),
+          filename_template: filenameTemplateSchema(),
+          quality: qualitySchema(),
+          ...svgSchemas(),
+          ...traceSchemas(),
+        },
+        required: ["image", "prompt"],
+      },
+    },
+    {
+      name: "generate_icon_set",
+      description:
+        "Create a favicon and app icon bundle from a stored image, a local file, or a new generation: " +
+        "multi-size favicon.ico, PNG favicons, Apple touch icon, Android icons, a maskable icon and site.webmanifest, " +
+        "plus the <link> tags to paste into your HTML <head>.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          image: {
+            type: "string",
+            description: "Stored image filename or absolute path of the source artwork. Square artwork works best.",
+          },
+          prompt: {
+            type: "string",
+            description: "Generate new artwork with this prompt instead of using an existing image",
+          },
+          model: {
+            type: "string",
+            description: "Model ID used when generating from a prompt",
+            default: defaultVectorModel(),
+          },
+          web_project_path: {
+            type: "string",
+            description: "Path to web project root folder. Icons are written to the root of its public directory.",
+          },
+          project_type: projectTypeSchema(),
+          asset_path: {
+            type: "string",
+            description: "Optional subdirectory within the web project's public directory for the icons.",
+          },
+          output_path: {
+            type: "string",
+            description: "Optional: Directory to write the icons to when not using a web project.",
+          },
+          name: {
+            type: "string",
+            description: "App name for site.webmanifest",
+          },
+          short_name: {
+            type: "string",
+            description: "Short app name for site.webmanifest",
+          },
+          theme_color: {
+            type: "string",
+            description: "Theme color for site.webmanifest and the theme-color meta tag, as a CSS color, e.g. '#1a73e8'",
+          },
+          background_color: {
+            type: "string",
+            description: "Background color behind the Apple touch icon and maskable icon, as a CSS color",
+            default: "#ffffff",
+          },
+          library: librarySchema("Library the source image is read from and the icons are saved to."),
+          overwrite: {
+            type: "string",
+            enum: OVERWRITE_POLICIES,
+            description: "Pass 'replace' to overwrite existing icon files. Icons are never renamed because the HTML tags and manifest reference them by name.",
+          },
+        },
+      },
+    },
+    {
+      name: "optimize_svg",
+      description: "Optimize an existing SVG with an svgo profile and report the size before and after",
+      inputSchema: {
+        type: "object",
+        properties: {
+          image: {
+            type: "string",
+            description: "Stored SVG filename or absolute path of an SVG file",
+          },
+          output_path: {
+            type: "string",
+            description: "Optional: File or directory (ending in '/') to write the optimized SVG to. Defaults to <name>.min.svg next to the source.",
+          },
+          ...svgSchemas(),
+          library: librarySchema("Library the source image is read from and the result is saved to."),
+          overwrite: overwriteSchema(),
+        },
+        required: ["image"],
+      },
+    },
+    {
+      name: "convert_image",
+      description: "Convert and post-process an existing image without generating a new one: change format (png, jpg, webp, avif, gif), " +
+        "resize, crop, rotate, make a background colour transparent, set quality and strip metadata. SVGs are rasterized at the target size.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          image: {
+            type: "string",
+            description: "Stored image filename (from list_images) or absolute path",
+          },
+          format: {
+            type: "string",
+            enum: [...CONVERT_FORMATS],
+            description: "Output format. Defaults to the source format, or png for SVG sources.",
+          },
+          quality: qualitySchema(),
+          width: {
+            type: "number",
+            description: "Output width in pixels. With only one side given, the other follows the aspect ratio.",
+          },
+          height: {
+            type: "number",
+            description: "Output height in pixels.",
+          },
+          fit: {
+            type: "string",
+            enum: [...RESIZE_FITS],
+            description: "How to fit width × height: 'cover' (crop around the most interesting region, default), 'contain' (pad with transparency), 'inside' (fit within, keeping the aspect ratio) or 'fill' (stretch).",
+          },
+          crop: {
+            type: "object",
+            properties: {
+              left: { type: "number" },
+              top: { type: "number" },
+              width: { type: "number" },
+              height: { type: "number" },
+            },
+            required: ["left", "top", "width", "height"],
+            description: "Region to keep, in source pixels, applied before resizing",
+          },
+          rotate: {
+            type: "number",
+            description: "Degrees to rotate clockwise, applied last. Angles that aren't multiples of 90 pad the corners with transparency.",
+          },
+          remove_background: {
+            type: "string",
+            description: "Background colour to make transparent, as #rrggbb, or 'auto' to use the colour of the top-left pixel. Works best on flat backgrounds.",
+          },
+          tolerance: {
+            type: "number",
+            description: `How far (0-255 per channel) a colour may be from remove_background and still be removed. Defaults to ${DEFAULT_TOLERANCE}.`,
+          },
+          background: {
+            type: "string",
+            description: "Colour that fills transparent areas in JPEG output (default: #ffffff)",
+          },
+          strip_metadata: {
+            type: "boolean",
+            description: "Remove EXIF, ICC and XMP metadata, including camera and location data. Defaults to true.",
+            default: true,
+          },
+          output_path: {
+            type: "string",
+            description: "Optional: File or directory (ending in '/') to write the result to. Defaults to <name>.<format> next to the source.",
+          },
+          library: librarySchema("Library the source image is read from and the result is saved to."),
+          overwrite: overwriteSchema(),
+        },
+        required: ["image"],
+      },
+    },
+    {
+      name: "list_images",
+      description: "List stored images with optional filtering, sorting and pagination",
+      inputSchema: {
+        type: "object",
+        properties: {
+          format: {
+            type: "string",
+            description: "Only include images in this format (svg, png, jpg, webp, avif, gif)",
+          },
+          model: {
+            type: "string",
+            description: "Only include images generated with this model ID",
+          },
+          prompt: {
+            type: "string",
+            description: "Only include images whose prompt (or filename, if no prompt is recorded) contains this text",
+          },
+          since: {
+            type: "string",
+            description: "Only include images created at or after this ISO 8601 date/time",
+          },
+          until: {
+            type: "string",
+            description: "Only include images created at or before this ISO 8601 date/time",
+          },
+          location: {
+            type: "string",
+            description: "'storage' for images in the library's storage, 'external' for images saved to output or web project paths, 'all', or a directory path to list images inside it",
+            default: "all",
+          },
+          sort_by: {
+            type: "string",
+            enum: ["date", "name", "size"],
+            description: "Sort field",
+            default: "date",
+          },
+          order: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description: "Sort order",
+            default: "desc",
+          },
+          offset: {
+            type: "number",
+            description: "Number of matching images to skip",
+            default: 0,
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of images to return (1-200)",
+            default: 50,
+          },
+          library: librarySchema("Library to list."),
+        },
+      },
+    },
     {
       name: "view_image",
-      description: "Open a stored image in the default image viewer",
+      description: "Show a stored image inline with its metadata, and open it in the default image viewer unless running headless",
       inputSchema: {
         type: "object",
         properties: {
@@ -434,6 +2658,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: "string",
             description: "Name of the image file to view",
           },
+          open_viewer: {
+            type: "boolean",
+            description: "Open the image in the desktop image viewer. Defaults to true unless the server runs headless (EVERART_HEADLESS, CI, or no display).",
+          },
+          library: librarySchema("Library containing the image."),
         },
         required: ["filename"],
       },
@@ -441,22 +2670,44 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
   ],
 }));
 
+// Resource URI prefix for a library; the default library keeps the original unprefixed URIs
+function resourceUriPrefix(library: Library): string {
+  return library.name === DEFAULT_LIBRARY ? "everart-forge-mcp://" : `everart-forge-mcp://libraries/${library.name}/`;
+}
+
+// The model registry as JSON
+const MODELS_RESOURCE_URI = "everart-forge-mcp://models";
+
+// everart-forge-mcp://[libraries/<library>/](images|metadata)/<filename>
+const RESOURCE_URI_PATTERN = /^everart-forge-mcp:\/\/(?:libraries\/([^/]+)\/)?(images|metadata)\/(.+)$/;
+
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
   try {
-    const files = await listStoredImages();
-    return {
-      resources: files.map(file => {
+    const resources: { uri: string, mimeType: string, name: string, description?: string }[] = [{
+      uri: MODELS_RESOURCE_URI,
+      mimeType: "application/json",
+      name: "Models",
+      description: "Available EverArt models with their formats, size limits, cost and capabilities",
+    }];
+    for (const library of libraries.values()) {
+      const files = await listStoredImages(library);
+      const records = await readCatalog(library.metadataDir);
+      for (const file of files) {
         // Determine correct MIME type based on file extension
         const ext = path.extname(file).slice(1).toLowerCase();
         const mimeType = getMimeType(ext);
-        
-        return {
-          uri: `everart-forge-mcp://images/${file}`,
+        const location = normalizeLocation(library.storage.location(file));
+        const record = records.find(r => normalizeLocation(r.path) === location);
+
+        resources.push({
+          uri: `${resourceUriPrefix(library)}images/${file}`,
           mimeType,
-          name: file,
-        };
-      }),
-    };
+          name: library.name === DEFAULT_LIBRARY ? file : `${library.name}/${file}`,
+          ...(record ? { description: `"${record.prompt}" (${modelDisplayName(MODELS, record.model)})` } : {}),
+        });
+      }
+    }
+    return { resources };
   } catch (error) {
     console.error("Failed to list resources:", error);
     throw new McpError(
@@ -467,19 +2718,61 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
 });
 
 server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const match = request.params.uri.match(/^everart-forge-mcp:\/\/images\/(.+)$/);
+  if (request.params.uri === MODELS_RESOURCE_URI) {
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: "application/json",
+          text: JSON.stringify({ defaultModel: MODELS.defaultModel, models: [...MODELS.models.values()] }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const match = request.params.uri.match(RESOURCE_URI_PATTERN);
   if (!match) {
     throw new McpError(
       ErrorCode.InvalidRequest, 
-      `Invalid URI format: ${request.params.uri}. Expected format: everart-forge-mcp://images/filename`
+      `Invalid URI format: ${request.params.uri}. Expected format: ${MODELS_RESOURCE_URI}, everart-forge-mcp://images/filename, everart-forge-mcp://metadata/filename, or either of the last two prefixed with libraries/<library>/`
     );
   }
 
-  const filename = match[1];
-  const filepath = path.join(STORAGE_DIR, filename);
+  const [, libraryName, kind, filename] = match;
+  const library = libraries.get(libraryName || DEFAULT_LIBRARY);
+  if (!library) {
+    throw new McpError(404, `Unknown library: ${libraryName}. Available libraries: ${[...libraries.keys()].join(", ")}`);
+  }
+
+  let location: string;
+  try {
+    location = library.storage.location(filename);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidRequest, (error as Error).message);
+  }
+
+  // Metadata for a stored image, as recorded in the catalog
+  if (kind === "metadata") {
+    const record = await findImageRecord(library.metadataDir, location);
+    if (!record) {
+      throw new McpError(
+        404,
+        `No metadata found for image: ${filename}. Only images generated after the catalog was introduced have metadata.`
+      );
+    }
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: "application/json",
+          text: JSON.stringify(record, null, 2),
+        },
+      ],
+    };
+  }
 
   try {
-    const content = await fs.readFile(filepath);
+    const content = await library.storage.read(filename);
     
     // Determine correct MIME type based on file extension
     const ext = path.extname(filename).slice(1).toLowerCase();
@@ -495,289 +2788,883 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       ],
     };
   } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    if (error instanceof StorageNotFoundError) {
       throw new McpError(
         404, // Use standard HTTP 404 code
-        `Image not found: ${filename}. Please check if the file exists in the storage directory.`
+        `Image not found: ${filename}. Please check if the file exists in the '${library.name}' library.`
       );
     }
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Failed to read image: ${(error as Error).message}`
-    );
-  }
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    await ensureStorageDir();
-  } catch (error) {
-    return errorResponse({
-      type: EverArtErrorType.STORAGE_ERROR,
-      message: `Failed to ensure storage directory: ${(error as Error).message}`
-    });
-  }
+    if (error instanceof InvalidStorageKeyError || error instanceof PathNotAllowedError) {
+      throw new McpError(ErrorCode.InvalidRequest, error.message);
+    }
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to read image: ${(error as Error).message}`
+    );
+  }
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request, { signal }) => {
+  try {
+    await ensureStorageDir();
+  } catch (error) {
+    return errorResponse({
+      type: EverArtErrorType.STORAGE_ERROR,
+      message: `Failed to ensure storage directory: ${(error as Error).message}`
+    });
+  }
+
+  switch (request.params.name) {
+    case "generate_image": {
+      try {
+        const validation = validateGenerationArgs(request.params.arguments as any);
+        if (validation.error) {
+          return errorResponse(validation.error);
+        }
+        const params = validation.params!;
+
+        // Run in the background and hand back a job ID the caller can poll
+        if ((request.params.arguments as any).async === true) {
+          const job = createJob("generate_image", params);
+          startJob(job, runGenerateImageJob);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `⏳ Image generation started in the background.\n\n` +
+                     `• Job ID: ${job.id}\n` +
+                     `• Model: ${modelDisplayName(MODELS, params.model)}\n` +
+                     `• Prompt: "${params.prompt}"\n\n` +
+                     `Use 'get_job_status' with this job ID to check progress and get the result.`
+              }
+            ],
+          };
+        }
+
+        const result = await executeGeneration(params, { signal });
+        // Images exported only as components have no image file to show
+        const images = result.images.filter(image => image.filepath !== image.component);
+
+        // Open the first image in the default viewer
+        if (images.length > 0) {
+          await openInViewer(images[0].filepath, (request.params.arguments as any).open_viewer);
+        }
+
+        // Inline previews share the size budget across all generated images
+        const inlineImages = await Promise.all(
+          images.map(image => inlineImageContent(image.filepath, Math.floor(INLINE_IMAGE_MAX_BYTES / images.length)))
+        );
+
+        return {
+          content: [
+            {
+              type: "text", 
+              text: (result.images.length > 1 ? `✅ ${result.images.length} images generated and saved successfully!\n\n` : `✅ Image generated and saved successfully!\n\n`) +
+                   formatGenerationResult(params, result)
+            },
+            ...(images.length > 0 ? [{
+              type: "text",
+              text: images.length > 1
+                ? `View the images at:\n` + images.map(image => `• ${viewUrl(image.filepath)}`).join("\n")
+                : `View the image at: ${viewUrl(images[0].filepath)}`
+            }] : []),
+            ...inlineImages.filter(image => image !== undefined)
+          ],
+        };
+      } catch (error: unknown) {
+        return generationErrorResponse(error);
+      }
+    }
+
+    case "generate_responsive_set": {
+      try {
+        const args = request.params.arguments as any;
+
+        if (!args.prompt || typeof args.prompt !== 'string' || args.prompt.trim() === '') {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: "Prompt is required and must be a non-empty string."
+          });
+        }
+
+        const prompt = args.prompt;
+        const widths: number[] = args.widths || DEFAULT_RESPONSIVE_WIDTHS;
+        const formats: string[] = args.formats || DEFAULT_RESPONSIVE_FORMATS;
+        const sizes: string = args.sizes || "100vw";
+        const alt: string = args.alt ?? prompt;
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
+        }
+        const { overwrite, error: overwriteError } = resolveOverwriteArg(args);
+        if (overwriteError) {
+          return errorResponse(overwriteError);
+        }
+        const { filenameTemplate, error: templateError } = resolveFilenameTemplateArg(args);
+        if (templateError) {
+          return errorResponse(templateError);
+        }
+
+        const { model: modelInfo, error: modelError } = resolveModelArg(args);
+        if (modelError) {
+          return errorResponse(modelError);
+        }
+        const model = modelInfo!.id;
+
+        if (!Array.isArray(widths) || widths.length === 0 ||
+            !widths.every(w => Number.isInteger(w) && w > 0 && w <= 8192)) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: "widths must be a non-empty array of integers between 1 and 8192"
+          });
+        }
+
+        if (!Array.isArray(formats) || formats.length === 0 ||
+            !formats.every(f => typeof f === 'string' && RESPONSIVE_FORMATS.includes(f.toLowerCase()))) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: `formats must be a non-empty array of: ${RESPONSIVE_FORMATS.join(", ")}`
+          });
+        }
+
+        await checkOutputLocation(args.output_path, args.web_project_path, args.project_type, args.asset_path);
+        const generation = await createGeneration(model, prompt, 1, { signal });
+        const imgUrl = await waitForImageUrl(generation[0].id, signal);
+
+        const set = await saveResponsiveImageSet(
+          imgUrl,
+          prompt,
+          model,
+          widths,
+          [...new Set(formats.map(f => f.toLowerCase()))],
+          {
+            outputPath: args.output_path,
+            webProjectPath: args.web_project_path,
+            projectType: args.project_type,
+            assetPath: args.asset_path,
+            generationId: generation[0].id,
+            library,
+            overwrite,
+            filenameTemplate,
+            signal,
+          }
+        );
+
+        // Reference files by their served URL inside a web project, otherwise relative to the set directory
+        const toUrl = (filepath: string) => {
+          const served = set.web && servedUrlPath(set.web.layout, filepath);
+          if (served) return served;
+          if (filepath.includes('://')) return publicUrlFor(filepath) || path.posix.basename(filepath);
+          return path.relative(set.directory, filepath).split(path.sep).join('/');
+        };
+        const markup = buildResponsiveMarkup(set, alt, sizes, toUrl);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ Responsive image set generated and saved successfully!\n\n` +
+                   `Generation details:\n` +
+                   `• Model: ${modelDisplayName(MODELS, model)}\n` +
+                   `• Prompt: "${prompt}"\n` +
+                   `• Directory: ${set.directory}\n` +
+                   (set.web ? `• Framework: ${set.web.layout.framework.name}\n` : ``) +
+                   `• Files (${set.variants.length}):\n` +
+                   set.variants.map(v => `  - ${path.basename(v.filepath)} (${v.width}×${v.height})`).join("\n")
+            },
+            {
+              type: "text",
+              text: `<img srcset>:\n${markup.img}\n\n<picture>:\n${markup.picture}\n\nJSX:\n${markup.jsx}`
+            }
+          ],
+        };
+      } catch (error: unknown) {
+        return generationErrorResponse(error);
+      }
+    }
+
+    case "edit_image": {
+      try {
+        const args = request.params.arguments as any;
+
+        if (!args.image || typeof args.image !== 'string') {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: "image is required and must be a stored image filename or an absolute path."
+          });
+        }
+
+        if (!args.prompt || typeof args.prompt !== 'string' || args.prompt.trim() === '') {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: "Prompt is required and must be a non-empty string."
+          });
+        }
+
+        const prompt = args.prompt;
+
+        const { model: modelInfo, error: modelError } = resolveModelArg(args);
+        if (modelError) {
+          return errorResponse(modelError);
+        }
+        const model = modelInfo!.id;
+        if (!modelInfo!.img2img) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: `Model '${model}' (${modelInfo!.name}) can't edit images. Use list_models to find one that can.`
+          });
+        }
+
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
+        }
+        const { overwrite, error: overwriteError } = resolveOverwriteArg(args);
+        if (overwriteError) {
+          return errorResponse(overwriteError);
+        }
+        const { filenameTemplate, error: templateError } = resolveFilenameTemplateArg(args);
+        if (templateError) {
+          return errorResponse(templateError);
+        }
+        const { svg, error: svgError } = resolveSvgArgs(args);
+        if (svgError) {
+          return errorResponse(svgError);
+        }
+        const { trace, error: traceError } = resolveTraceArgs(args);
+        if (traceError) {
+          return errorResponse(traceError);
+        }
+        const { quality, error: qualityError } = resolveQualityArg(args);
+        if (qualityError) {
+          return errorResponse(qualityError);
+        }
+
+        let sourcePath: string;
+        try {
+          sourcePath = await resolveSourceImage(args.image, library!);
+        } catch (error) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: `${(error as Error).message}\n\nUse 'list_images' to see all available images.`
+          });
+        }
+
+        // Keep the source format unless the model cannot produce it
+        const sourceFormat = path.extname(sourcePath).slice(1).toLowerCase();
+        const defaultFormat = trace ? "svg" : modelInfo!.formats[0];
+        const format = args.format || (trace ? "svg" :
+          (["svg", "png", "jpg", "jpeg", "webp"].includes(sourceFormat) && validateModelFormatCompatibility(model, sourceFormat)
+            ? sourceFormat
+            : defaultFormat));
+
+        if (!validateModelFormatCompatibility(model, format, trace !== undefined)) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: formatCompatibilityMessage(model, format)
+          });
+        }
+
+        await checkOutputLocation(args.output_path, args.web_project_path, args.project_type, args.asset_path);
+        const sourceUrl = await uploadSourceImage(sourcePath, signal);
+        const generation = await createGeneration(model, prompt, 1, { sourceImageUrl: sourceUrl, signal });
+        const imgUrl = await waitForImageUrl(generation[0].id, signal);
+
+        const { filepath, web, svgOptimization } = await saveImage(imgUrl, prompt, model, format, {
+          outputPath: args.output_path,
+          webProjectPath: args.web_project_path,
+          projectType: args.project_type,
+          assetPath: args.asset_path,
+          generationId: generation[0].id,
+          library,
+          overwrite,
+          filenameTemplate,
+          svg,
+          trace,
+          quality,
+          signal,
+        });
+
+        // Open in default viewer
+        await openInViewer(filepath, args.open_viewer);
+
+        const inlineImage = await inlineImageContent(filepath);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ Image edited and saved successfully!\n\n` +
+                   `Edit details:\n` +
+                   `• Source: ${sourcePath}\n` +
+                   `• Model: ${modelDisplayName(MODELS, model)}\n` +
+                   `• Prompt: "${prompt}"\n` +
+                   `• Format: ${format.toUpperCase()}\n` +
+                   `• Saved to: ${filepath}` +
+                   (svgOptimization ? `\n• SVG optimization (${svgOptimization.profile}): ${formatSizeChange(svgOptimization)}` : ``) +
+                   (web ? `\n• Framework: ${web.framework}\n• ${web.url ? `URL path: ${web.url}` : `Import path: ${web.importPath}`}\n\nUsage:\n\n${formatUsageSnippets(web.snippets)}` : ``)
+            },
+            {
+              type: "text",
+              text: `View the image at: ${viewUrl(filepath)}`
+            },
+            ...(inlineImage ? [inlineImage] : [])
+          ],
+        };
+      } catch (error: unknown) {
+        return generationErrorResponse(error);
+      }
+    }
+
+    case "generate_icon_set": {
+      try {
+        const args = (request.params.arguments || {}) as any;
+
+        if (!args.image && !args.prompt) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: "Either image (stored filename or absolute path) or prompt is required."
+          });
+        }
+        if (args.image && args.prompt) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: "Specify either image or prompt, not both."
+          });
+        }
+
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
+        }
+        const { overwrite, error: overwriteError } = resolveOverwriteArg(args);
+        if (overwriteError) {
+          return errorResponse(overwriteError);
+        }
+        for (const name of ["theme_color", "background_color"]) {
+          if (args[name] !== undefined && (typeof args[name] !== "string" || !isCssColor(args[name]))) {
+            return errorResponse({
+              type: EverArtErrorType.VALIDATION_ERROR,
+              message: `Invalid ${name}: ${args[name]}. Use a CSS colour such as '#1a73e8', 'rgb(26, 115, 232)' or 'navy'.`
+            });
+          }
+        }
+        await checkOutputLocation(args.output_path, args.web_project_path, args.project_type, args.asset_path || ".");
+
+        // Resolve or generate the source artwork
+        let sourcePath: string;
+        if (args.image) {
+          try {
+            sourcePath = await resolveSourceImage(args.image, library!);
+          } catch (error) {
+            return errorResponse({
+              type: EverArtErrorType.VALIDATION_ERROR,
+              message: `${(error as Error).message}\n\nUse 'list_images' to see all available images.`
+            });
+          }
+        } else {
+          const validation = validateGenerationArgs({ prompt: args.prompt, model: args.model || defaultVectorModel(), size_preset: "app_icon", library: library!.name });
+          if (validation.error) {
+            return errorResponse(validation.error);
+          }
+          const result = await executeGeneration(validation.params!, { signal });
+          sourcePath = result.images[0].filepath;
+        }
+
+        // Icons live at the root of the served directory unless a subdirectory was asked for
+        let directory: string;
+        let publicPath = "/";
+        let framework: string | undefined;
+        let inStorage = false;
+        if (args.web_project_path) {
+          const web = await processWebProjectPath(args.web_project_path, args.project_type, args.asset_path || ".");
+          if (!web) {
+            throw new Error(`Failed to prepare web project directory: ${args.web_project_path}`);
+          }
+          directory = web.directory;
+          framework = web.layout.framework.name;
+          publicPath = (servedUrlPath(web.layout, directory) || "/").replace(/\/?$/, "/");
+        } else if (args.output_path) {
+          directory = args.output_path;
+        } else {
+          // Default store: directory is a storage key prefix
+          const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+          const name = path.basename(sourcePath, path.extname(sourcePath));
+          directory = `icons/${timestamp}_${name}`;
+          inStorage = true;
+        }
+
+        const source = await readImage(sourcePath);
+        const iconSet = await buildIconSet(source, {
+          name: args.name,
+          shortName: args.short_name,
+          themeColor: args.theme_color,
+          backgroundColor: args.background_color,
+          publicPath,
+        }, path.extname(sourcePath).toLowerCase() === ".svg");
+
+        const destinations = iconSet.files.map(file => ({
+          file,
+          destination: (inStorage
+            ? { library: library!, storageKey: `${directory}/${file.filename}` }
+            : { filepath: path.join(directory, file.filename) }) as OutputDestination,
+        }));
+
+        // The HTML tags and manifest reference icons by name, so existing icons can't be renamed around
+        if (overwrite !== "replace") {
+          const existing: string[] = [];
+          for (const { file, destination } of destinations) {
+            if (await outputExists(destination)) existing.push(file.filename);
+          }
+          if (existing.length > 0) {
+            return errorResponse({
+              type: EverArtErrorType.STORAGE_ERROR,
+              message: `Icon files already exist in ${inStorage ? library!.storage.location(directory) : directory}: ${existing.join(", ")}. Pass overwrite: "replace" to overwrite them.`
+            });
+          }
+        }
+
+        for (const { file, destination } of destinations) {
+          const format = path.extname(file.filename).slice(1);
+          await writeOutputFile(destination, file.data, format, overwrite === "replace" ? "replace" : "fail");
+        }
+        if (inStorage) {
+          directory = library!.storage.location(directory);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ Icon set generated successfully!\n\n` +
+                   `• Source: ${sourcePath}\n` +
+                   `• Directory: ${directory}\n` +
+                   (framework ? `• Framework: ${framework}\n` : ``) +
+                   `• Files (${iconSet.files.length}):\n` +
+                   iconSet.files.map(f => `  - ${f.filename}${f.size ? ` (${f.size}×${f.size})` : ""}`).join("\n")
+            },
+            {
+              type: "text",
+              text: `Add to your HTML <head>:\n${iconSet.htmlTags}\n\nsite.webmanifest:\n${JSON.stringify(iconSet.manifest, null, 2)}`
+            }
+          ],
+        };
+      } catch (error: unknown) {
+        return generationErrorResponse(error);
+      }
+    }
 
-  switch (request.params.name) {
-    case "generate_image": {
+    case "optimize_svg": {
       try {
-        const args = request.params.arguments as any;
-        
-        // Validate required parameters
-        if (!args.prompt || typeof args.prompt !== 'string' || args.prompt.trim() === '') {
+        const args = (request.params.arguments || {}) as any;
+
+        if (!args.image || typeof args.image !== 'string') {
           return errorResponse({
             type: EverArtErrorType.VALIDATION_ERROR,
-            message: "Prompt is required and must be a non-empty string."
+            message: "image is required and must be a stored SVG filename or an absolute path."
           });
         }
-        
-        const prompt = args.prompt;
-        // Use 'let' instead of 'const' for model since we might need to modify it
-        let modelInput = args.model || "5000";
-        const image_count = args.image_count || 1;
-        const output_path = args.output_path;
-        const web_project_path = args.web_project_path;
-        const project_type = args.project_type;
-        const asset_path = args.asset_path;
-        
-        // Enhanced validation
-        if (image_count < 1 || image_count > 10) {
+        if (path.extname(args.image).toLowerCase() !== ".svg") {
           return errorResponse({
-            type: EverArtErrorType.VALIDATION_ERROR,
-            message: "image_count must be between 1 and 10"
+            type: EverArtErrorType.FORMAT_ERROR,
+            message: `Only SVG files can be optimized: ${args.image}`
           });
         }
-        
-        // Validate model - extract the numeric ID if a combined format was provided
-        const validModels = ["5000", "6000", "7000", "8000", "9000"];
-        
-        // Handle model IDs in the format "8000:Recraft-Vector"
-        if (modelInput.includes(":")) {
-          const originalModel = modelInput;
-          modelInput = modelInput.split(":")[0];
-          console.log(`Received combined model ID format: ${originalModel}, using base ID: ${modelInput}`);
+
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
         }
-        
-        if (!validModels.includes(modelInput)) {
+        const { overwrite, error: overwriteError } = resolveOverwriteArg(args);
+        if (overwriteError) {
+          return errorResponse(overwriteError);
+        }
+        const { svg, error: svgError } = resolveSvgArgs(args);
+        if (svgError) {
+          return errorResponse(svgError);
+        }
+        await checkOutputLocation(args.output_path);
+
+        let sourcePath: string;
+        try {
+          sourcePath = await resolveSourceImage(args.image, library!);
+        } catch (error) {
           return errorResponse({
             type: EverArtErrorType.VALIDATION_ERROR,
-            message: `Invalid model ID: ${modelInput}. Valid models are: ${validModels.join(", ")}`
+            message: `${(error as Error).message}\n\nUse 'list_images' to see all available images.`
           });
         }
-        
-        // Now we have the validated model ID
-        const format = args.format || (modelInput === "8000" ? "svg" : "png");
-        
-        // Validate format
-        const supportedFormats = ["svg", "png", "jpg", "jpeg", "webp"];
-        if (!supportedFormats.includes(format.toLowerCase())) {
+
+        const stem = path.basename(sourcePath, path.extname(sourcePath));
+        const source = await readImage(sourcePath);
+        let optimized: ReturnType<typeof optimizeSvg>;
+        try {
+          optimized = optimizeSvg(source.toString("utf-8"), svg, defaultIdPrefix(stem));
+        } catch (error) {
           return errorResponse({
-            type: EverArtErrorType.VALIDATION_ERROR,
-            message: `Unsupported format: ${format}. Supported formats are: ${supportedFormats.join(", ")}`
+            type: EverArtErrorType.FORMAT_ERROR,
+            message: `Failed to optimize SVG: ${(error as Error).message}`
           });
         }
-        
-        // Validate model/format compatibility
-        if (!validateModelFormatCompatibility(modelInput, format)) {
+        const { data, ...report } = optimized;
+
+        // Write next to the source unless an output path was given
+        const stored = findStoredLocation(sourcePath);
+        let destination: OutputDestination;
+        if (args.output_path) {
+          destination = { filepath: await isDirectoryPath(args.output_path) ? path.join(args.output_path, `${stem}.min.svg`) : args.output_path };
+        } else if (stored) {
+          destination = { library: stored.library, storageKey: path.posix.join(path.posix.dirname(stored.key), `${stem}.min.svg`) };
+        } else {
+          destination = { filepath: path.join(path.dirname(sourcePath), `${stem}.min.svg`) };
+        }
+        const written = Buffer.from(data);
+        const filepath = await writeOutputFile(destination, written, "svg", overwrite);
+
+        // Catalog the optimized copy with the source's prompt and model, when known
+        const catalogLibrary = stored?.library || library!;
+        const record = await findImageRecord(catalogLibrary.metadataDir, sourcePath);
+        let dimensions: { width?: number, height?: number } = {};
+        try {
+          const { width, height } = await sharp(source).metadata();
+          dimensions = { width, height };
+        } catch {
+          // Dimensions are informational only
+        }
+        await catalogImage(catalogLibrary, filepath, written, record?.prompt || "", record?.model || "", "svg", dimensions);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ SVG optimized successfully!\n\n` +
+                   `• Source: ${sourcePath}\n` +
+                   `• Saved to: ${filepath}\n` +
+                   `• Profile: ${report.profile}\n` +
+                   `• Size: ${formatSizeChange(report)}`
+            }
+          ],
+        };
+      } catch (error: unknown) {
+        return generationErrorResponse(error);
+      }
+    }
+
+    case "convert_image": {
+      try {
+        const args = (request.params.arguments || {}) as any;
+
+        if (!args.image || typeof args.image !== 'string') {
           return errorResponse({
             type: EverArtErrorType.VALIDATION_ERROR,
-            message: `Format '${format}' is not compatible with model '${modelInput}'. SVG format is only available with Recraft-Vector (8000) model.`
+            message: "image is required and must be a stored image filename or an absolute path."
           });
         }
-        
-        // Generate image with retry logic
-        let generation;
-        let retryCount = 0;
-        
-        while (retryCount < MAX_RETRIES) {
-          try {
-            generation = await client.v1.generations.create(
-              modelInput,
-              prompt,
-              "txt2img",
-              {
-                imageCount: image_count,
-                height: 1024,
-                width: 1024,
-                // Add extra fields for specific models if needed
-                ...(modelInput === "8000" ? { variant: "vector" } : {}),
-              },
-            );
-            break;
-          } catch (error) {
-            if (retryCount >= MAX_RETRIES - 1) throw error;
-            
-            // Exponential backoff
-            const delay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
-            await new Promise(r => setTimeout(r, delay));
-            retryCount++;
-          }
+
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
         }
-        
-        if (!generation) {
-          throw new Error("Failed to create generation after multiple attempts");
+        const { overwrite, error: overwriteError } = resolveOverwriteArg(args);
+        if (overwriteError) {
+          return errorResponse(overwriteError);
         }
 
-        // Enhanced polling with better timeout handling
-        const completedGen = await client.v1.generations.fetchWithPolling(
-          generation[0].id,
-          { 
-            maxAttempts: 30,  // Increased from default
-            interval: 3000    // Check every 3 seconds
-          }
-        );
-
-        const imgUrl = completedGen.image_url;
-        if (!imgUrl) {
-          throw new Error("No image URL in the completed generation");
-        }
-
-        // Save image locally with specified format and path
-        const filepath = await saveImage(
-          imgUrl, 
-          prompt, 
-          modelInput, 
-          format, 
-          output_path, 
-          web_project_path, 
-          project_type, 
-          asset_path
-        );
+        // Keep the source format unless it can't be written, as with SVG
+        const sourceFormat = path.extname(args.image).slice(1).toLowerCase();
+        const options: ConvertOptions = {
+          format: (args.format || (CONVERT_FORMATS.includes(sourceFormat as ConvertFormat) ? sourceFormat : "png")).toLowerCase(),
+          quality: args.quality,
+          width: args.width,
+          height: args.height,
+          fit: args.fit,
+          crop: args.crop,
+          rotate: args.rotate,
+          removeBackground: args.remove_background,
+          tolerance: args.tolerance,
+          background: args.background,
+          keepMetadata: args.strip_metadata === false,
+        };
+        try {
+          validateConvertOptions(options);
+        } catch (error) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: (error as Error).message
+          });
+        }
+        await checkOutputLocation(args.output_path);
 
-        // Open in default viewer
+        let sourcePath: string;
         try {
-          await open(filepath);
-        } catch (openError) {
-          console.warn("Could not open the image in default viewer:", openError);
-          // Continue without throwing - this is a non-critical error
-        }
-
-        // Model name mapping for user-friendly display
-        const modelNames: Record<string, string> = {
-          "5000": "FLUX1.1 (Standard quality)",
-          "9000": "FLUX1.1-ultra (Ultra high quality)",
-          "6000": "Stable Diffusion 3.5",
-          "7000": "Recraft-Real (Photorealistic)",
-          "8000": "Recraft-Vector (Vector art)"
-        };
+          sourcePath = await resolveSourceImage(args.image, library!);
+        } catch (error) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: `${(error as Error).message}\n\nUse 'list_images' to see all available images.`
+          });
+        }
 
-        // Read the image file for inline display
-        let imageData: string | undefined;
+        const source = await readImage(sourcePath);
+        let converted: Awaited<ReturnType<typeof convertImage>>;
         try {
-          const imageContent = await fs.readFile(filepath);
-          imageData = imageContent.toString('base64');
+          converted = await convertImage(source, options);
         } catch (error) {
-          console.warn("Unable to read image for inline display:", error);
-          // Continue without inline display if reading fails
+          return errorResponse({
+            type: EverArtErrorType.FORMAT_ERROR,
+            message: `Failed to convert image: ${(error as Error).message}`
+          });
         }
 
-        // Calculate relative web path if applicable
-        let webRelativePath: string | undefined;
-        if (web_project_path && filepath.startsWith(web_project_path)) {
-          webRelativePath = filepath.slice(web_project_path.length);
-          if (!webRelativePath.startsWith('/')) webRelativePath = '/' + webRelativePath;
+        // Write next to the source unless an output path was given; never over the source by default
+        const stem = path.basename(sourcePath, path.extname(sourcePath));
+        const filename = `${stem}${options.format === sourceFormat ? "-converted" : ""}.${options.format}`;
+        const stored = findStoredLocation(sourcePath);
+        let destination: OutputDestination;
+        if (args.output_path) {
+          destination = { filepath: await isDirectoryPath(args.output_path) ? path.join(args.output_path, filename) : args.output_path };
+        } else if (stored) {
+          destination = { library: stored.library, storageKey: path.posix.join(path.posix.dirname(stored.key), filename) };
+        } else {
+          destination = { filepath: path.join(path.dirname(sourcePath), filename) };
         }
+        const filepath = await writeOutputFile(destination, converted.data, options.format, overwrite);
+
+        // Catalog the converted copy with the source's prompt and model, when known
+        const catalogLibrary = stored?.library || library!;
+        const record = await findImageRecord(catalogLibrary.metadataDir, sourcePath);
+        await catalogImage(catalogLibrary, filepath, converted.data, record?.prompt || "", record?.model || "", options.format,
+          { width: converted.width, height: converted.height });
+
+        const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+        const inlineImage = await inlineImageContent(filepath);
 
         return {
           content: [
             {
-              type: "text", 
-              text: `✅ Image generated and saved successfully!\n\n` +
-                   `Generation details:\n` +
-                   `• Model: ${modelNames[modelInput] || modelInput}\n` +
-                   `• Prompt: "${prompt}"\n` +
-                   `• Format: ${format.toUpperCase()}\n` +
-                   `• Saved to: ${filepath}` +
-                   (webRelativePath ? `\n• Web relative path: ${webRelativePath}` : ``)
+              type: "text",
+              text: `✅ Image converted successfully!\n\n` +
+                   `• Source: ${sourcePath}\n` +
+                   `• Saved to: ${filepath}\n` +
+                   `• Format: ${options.format.toUpperCase()}\n` +
+                   `• Size: ${converted.width}×${converted.height}\n` +
+                   `• File size: ${kb(source.length)} → ${kb(converted.data.length)}` +
+                   (converted.metadataDropped ? `\n• Metadata: not kept, since rotate and remove_background re-encode the pixels` : ``)
             },
             {
               type: "text",
-              text: `View the image at: file://${filepath}`
-            }
+              text: `View the image at: ${viewUrl(filepath)}`
+            },
+            ...(inlineImage ? [inlineImage] : [])
           ],
         };
       } catch (error: unknown) {
-        console.error("Detailed error:", error);
-        
-        // Categorize errors for better user feedback
-        if (error instanceof Error) {
-          if (error.message.includes("SVG format")) {
-            return errorResponse({
-              type: EverArtErrorType.FORMAT_ERROR,
-              message: error.message
-            });
-          } else if (error.message.includes("Failed to fetch image")) {
-            return errorResponse({
-              type: EverArtErrorType.NETWORK_ERROR,
-              message: "Failed to download the generated image. Please check your internet connection and try again."
-            });
-          } else if (error.message.includes("rate limit")) {
-            return errorResponse({
-              type: EverArtErrorType.API_ERROR,
-              message: "EverArt API rate limit reached. Please try again later."
-            });
-          } else if (error.message.includes("unauthorized") || error.message.includes("authentication")) {
-            return errorResponse({
-              type: EverArtErrorType.AUTHENTICATION_ERROR,
-              message: "API authentication failed. Please check your EverArt API key."
-            });
-          }
-        }
-        
-        // Generic error handling
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        return generationErrorResponse(error);
+      }
+    }
+
+    case "list_models": {
+      const models = [...MODELS.models.values()];
+      return {
+        content: [{
+          type: "text",
+          text: `🎨 Models (${models.length}):\n\n` +
+               models.map(model => describeModel(model, model.id === MODELS.defaultModel)).join("\n\n") +
+               `\n\nPass the ID (e.g. "${MODELS.defaultModel}") or "ID:name" as the model argument.`
+        }],
+      };
+    }
+
+    case "get_job_status": {
+      const args = (request.params.arguments || {}) as any;
+      if (!args.job_id || typeof args.job_id !== 'string') {
+        return errorResponse({
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: "job_id is required and must be a string"
+        });
+      }
+
+      const job = getJob(args.job_id);
+      if (!job) {
+        return errorResponse({
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: `Job not found: ${args.job_id}. Use 'list_jobs' to see known jobs.`
+        });
+      }
+
+      return {
+        content: [
+          { type: "text", text: formatJob(job) },
+          ...(job.status === "succeeded" && job.result?.images?.length ? [{
+            type: "text",
+            text: `View the image(s) at:\n` + (job.result as GenerationResult).images.map(image => `• ${viewUrl(image.filepath)}`).join("\n")
+          }] : []),
+        ],
+      };
+    }
+
+    case "list_jobs": {
+      const args = (request.params.arguments || {}) as any;
+      const validStatuses: JobStatus[] = ["queued", "running", "succeeded", "failed", "canceled"];
+      if (args.status !== undefined && !validStatuses.includes(args.status)) {
+        return errorResponse({
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: `status must be one of: ${validStatuses.join(", ")}`
+        });
+      }
+
+      const limit = args.limit ?? 20;
+      if (!Number.isInteger(limit) || limit < 1) {
+        return errorResponse({
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: "limit must be a positive integer"
+        });
+      }
+
+      const jobs = listJobs(args.status);
+      if (jobs.length === 0) {
+        return {
+          content: [{ type: "text", text: args.status ? `No ${args.status} jobs found.` : "No jobs found." }],
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `🗂 Jobs (${Math.min(limit, jobs.length)} of ${jobs.length}):\n\n` +
+               jobs.slice(0, limit).map(formatJob).join("\n\n")
+        }],
+      };
+    }
+
+    case "cancel_job": {
+      const args = (request.params.arguments || {}) as any;
+      if (!args.job_id || typeof args.job_id !== 'string') {
+        return errorResponse({
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: "job_id is required and must be a string"
+        });
+      }
+
+      const existing = getJob(args.job_id);
+      if (!existing) {
+        return errorResponse({
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: `Job not found: ${args.job_id}. Use 'list_jobs' to see known jobs.`
+        });
+      }
+      if (existing.status === "succeeded" || existing.status === "failed" || existing.status === "canceled") {
         return errorResponse({
-          type: EverArtErrorType.UNKNOWN_ERROR,
-          message: errorMessage
+          type: EverArtErrorType.VALIDATION_ERROR,
+          message: `Job ${existing.id} has already finished with status '${existing.status}'.`
         });
       }
+
+      const job = await cancelJob(args.job_id);
+      return {
+        content: [{ type: "text", text: `🛑 Job canceled.\n\n${formatJob(job!)}` }],
+      };
     }
 
     case "list_images": {
       try {
-        const files = await listStoredImages();
-        if (files.length === 0) {
+        const args = (request.params.arguments || {}) as any;
+
+        // Validate filters
+        const parseDate = (value: unknown, name: string): Date | undefined => {
+          if (value === undefined) return undefined;
+          const date = new Date(value as string);
+          if (typeof value !== 'string' || isNaN(date.getTime())) {
+            throw new Error(`${name} must be an ISO 8601 date or date-time`);
+          }
+          return date;
+        };
+
+        let query: ImageQuery;
+        try {
+          query = {
+            format: args.format,
+            model: args.model,
+            prompt: args.prompt,
+            since: parseDate(args.since, "since"),
+            until: parseDate(args.until, "until"),
+            location: args.location,
+            sortBy: args.sort_by,
+            order: args.order,
+            offset: args.offset ?? 0,
+            limit: args.limit ?? 50,
+          };
+          if (query.sortBy && !["date", "name", "size"].includes(query.sortBy)) {
+            throw new Error("sort_by must be one of: date, name, size");
+          }
+          if (query.order && !["asc", "desc"].includes(query.order)) {
+            throw new Error("order must be 'asc' or 'desc'");
+          }
+          if (!Number.isInteger(query.offset) || query.offset! < 0) {
+            throw new Error("offset must be a non-negative integer");
+          }
+          if (!Number.isInteger(query.limit) || query.limit! < 1 || query.limit! > 200) {
+            throw new Error("limit must be an integer between 1 and 200");
+          }
+        } catch (error) {
+          return errorResponse({
+            type: EverArtErrorType.VALIDATION_ERROR,
+            message: (error as Error).message
+          });
+        }
+
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
+        }
+
+        const entries = await listImageEntries(library!);
+        if (entries.length === 0) {
           return {
-            content: [{ type: "text", text: "No stored images found. Try generating some images first!" }],
+            content: [{ type: "text", text: `No images in the '${library!.name}' library. Try generating some images first!` }],
           };
         }
 
-        // Group files by type for better display
-        const filesByType: Record<string, string[]> = {};
-        
-        for (const file of files) {
-          const ext = path.extname(file).slice(1).toLowerCase();
-          if (!filesByType[ext]) {
-            filesByType[ext] = [];
-          }
-          filesByType[ext].push(file);
+        const { total, results } = queryImageEntries(entries, query);
+        if (results.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: total === 0
+                ? `No images match the given filters (${entries.length} image(s) in total).`
+                : `No images on this page. ${total} image(s) match; try a smaller offset.`
+            }],
+          };
         }
-        
-        let resultText = "📁 Stored images:\n\n";
-        
-        for (const [type, typeFiles] of Object.entries(filesByType)) {
-          resultText += `${type.toUpperCase()} Files (${typeFiles.length}):\n`;
-          resultText += typeFiles.map(f => `• ${f}`).join("\n");
-          resultText += "\n\n";
+
+        const describe = (entry: ImageEntry) => {
+          const size = entry.width && entry.height ? `, ${entry.width}×${entry.height}` : "";
+          const name = entry.location === "storage" ? entry.filename : entry.path;
+          let line = `• ${name} [${entry.format.toUpperCase()}${size}, ${entry.createdAt.toISOString()}]`;
+          if (entry.prompt) {
+            line += `\n  "${entry.prompt}" (${entry.model ? modelDisplayName(MODELS, entry.model) : "unknown model"})`;
+          }
+          return line;
+        };
+
+        const first = query.offset! + 1;
+        const last = query.offset! + results.length;
+        let resultText = libraries.size > 1 ? `📁 Images in the '${library!.name}' library:\n\n` : "📁 Stored images:\n\n";
+        resultText += results.map(describe).join("\n");
+        resultText += `\n\nShowing ${first}-${last} of ${total} matching image(s)`;
+        if (last < total) {
+          resultText += `. Use offset ${last} to see the next page.`;
         }
         
-        resultText += `Total: ${files.length} file(s)`;
-        
         // Add file URLs instead of trying to embed images
-        const recentFiles = files.slice(-5);
-        const fileUrls: string[] = [];
-        
-        for (const file of recentFiles) {
-          const filepath = path.join(STORAGE_DIR, file);
-          fileUrls.push(`file://${filepath}`);
-        }
+        const fileUrls = results.slice(0, 5).map(entry => viewUrl(entry.path));
         
         return {
           content: [
             { type: "text", text: resultText },
             ...(fileUrls.length > 0 ? [{ 
               type: "text", 
-              text: "\nRecent images:\n" + fileUrls.map(url => `• ${url}`).join('\n')
+              text: "\nImages:\n" + fileUrls.map(url => `• ${url}`).join('\n')
             }] : []),
           ],
         };
@@ -802,15 +3689,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           });
         }
         
+        const { library, error: libraryError } = resolveLibraryArg(args);
+        if (libraryError) {
+          return errorResponse(libraryError);
+        }
+        const storage = library!.storage;
+
         const filename = args.filename;
-        const filepath = path.join(STORAGE_DIR, filename);
+        const filepath = storage.location(filename);
 
-        try {
-          // Check if file exists
-          await fs.access(filepath);
-        } catch (accessError) {
+        // Check if file exists
+        if (!(await storage.exists(filename))) {
           // List available files to help the user
-          const availableFiles = await listStoredImages();
+          const availableFiles = await listStoredImages(library!);
           let errorMsg = `Image not found: ${filename}`;
           
           if (availableFiles.length > 0) {
@@ -834,50 +3725,94 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         // Read the image for inline display
-        let imageData: string | undefined;
-        let mimeType: string = 'application/octet-stream';
-        
-        try {
-          const content = await fs.readFile(filepath);
-          imageData = content.toString('base64');
-          const ext = path.extname(filename).slice(1).toLowerCase();
-          mimeType = getMimeType(ext);
-        } catch (error) {
-          console.warn("Unable to read image for inline display:", error);
-          // Continue without inline display if reading fails
-        }
+        const inlineImage = await inlineImageContent(filepath);
 
-        await open(filepath);
-        
-        // Skip opening in external viewer since we'll show in MCP
-        try {
-          // If we got here, cancel the auto-open to avoid duplicate windows
-          // await open(filepath);
-        } catch (openError) {
-          // Ignore error
+        const opened = await openInViewer(filepath, args.open_viewer);
+        const record = await findImageRecord(library!.metadataDir, filepath);
+
+        // Without a catalog record, report what can be read from the file itself
+        let fileDetails = ``;
+        if (!record) {
+          try {
+            const object = (await storage.list()).find(o => o.key === filename);
+            const metadata = await sharp(await storage.read(filename)).metadata();
+            fileDetails = `\n\nFile details:\n` +
+              `• Format: ${path.extname(filename).slice(1).toUpperCase()}\n` +
+              (metadata.width && metadata.height ? `• Dimensions: ${metadata.width}×${metadata.height}\n` : ``) +
+              (object ? `• Size: ${object.size} bytes\n• Modified: ${object.lastModified.toISOString()}` : ``);
+          } catch (error) {
+            console.warn("Unable to read image details:", error);
+          }
         }
-        
+
         return {
           content: [
             { 
               type: "text", 
-              text: `✅ Viewing image: ${filename}` 
+              text: `✅ Viewing image: ${filename}` +
+                   (record
+                     ? `\n\nGeneration details:\n` +
+                       `• Model: ${modelDisplayName(MODELS, record.model)}\n` +
+                       `• Prompt: "${record.prompt}"\n` +
+                       (record.style ? `• Style: ${record.style}\n` : ``) +
+                       (record.settings?.negativePrompt ? `• Negative prompt: "${record.settings.negativePrompt}"\n` : ``) +
+                       (record.settings?.seed !== undefined ? `• Seed: ${record.settings.seed}\n` : ``) +
+                       `• Format: ${record.format.toUpperCase()}` +
+                       (record.width && record.height ? `\n• Dimensions: ${record.width}×${record.height}` : ``) +
+                       `\n• Generated: ${record.createdAt}`
+                     : fileDetails)
             },
             {
               type: "text",
-              text: `Image opened in default viewer.\nFile path: file://${filepath}`
-            }
+              text: (opened ? `Image opened in default viewer.\n` : ``) + `File path: ${viewUrl(filepath)}`
+            },
+            ...(inlineImage ? [inlineImage] : [])
           ],
         };
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         return errorResponse({
-          type: EverArtErrorType.UNKNOWN_ERROR,
+          type: error instanceof InvalidStorageKeyError || error instanceof PathNotAllowedError
+            ? EverArtErrorType.VALIDATION_ERROR
+            : EverArtErrorType.UNKNOWN_ERROR,
           message: `Error viewing image: ${errorMessage}`
         });
       }
     }
 
+    case "generate_batch": {
+      try {
+        const args = request.params.arguments as any;
+        const { batch, error } = await resolveBatchArgs(args);
+        if (error) {
+          return errorResponse(error);
+        }
+
+        if (args.async === true) {
+          const job = createJob("generate_batch", batch!);
+          startJob(job, runGenerateBatchJob);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `⏳ Batch of ${batch!.items.length} items started in the background.\n\n` +
+                     `• Job ID: ${job.id}\n` +
+                     `• Concurrency: ${batch!.concurrency}\n\n` +
+                     `Use 'get_job_status' with this job ID to check progress and get the report.`
+              }
+            ],
+          };
+        }
+
+        const results = await executeBatch(batch!, { signal });
+        return {
+          content: [{ type: "text", text: formatBatchReport(results) }],
+        };
+      } catch (error: unknown) {
+        return generationErrorResponse(error);
+      }
+    }
+
     default:
       return errorResponse({
         type: EverArtErrorType.VALIDATION_ERROR,
@@ -888,9 +3823,87 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
 async function runServer() {
   await ensureStorageDir();
+
+  // Resume jobs that were queued or running when the server last stopped
+  const interruptedJobs = await loadJobs(STORAGE_DIR, MAX_CONCURRENT_JOBS);
+  for (const job of interruptedJobs) {
+    const runner = JOB_RUNNERS[job.type];
+    if (runner) {
+      console.error(`Resuming interrupted job ${job.id} (${job.type})`);
+      startJob(job, runner);
+    } else {
+      await updateJob(job.id, { status: "failed", error: `Unknown job type: ${job.type}` });
+    }
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("EverArt Forge MCP Server running on stdio");
 }
 
-runServer().catch(console.error);
+// Run a manifest from the command line: everart-forge-mcp batch <manifest> [--concurrency N] [--force]
+async function runBatchCli(argv: string[]): Promise<number> {
+  let manifestPath: string | undefined;
+  let concurrency: number | undefined;
+  let force = false;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--force") {
+      force = true;
+    } else if (argv[i] === "--concurrency") {
+      concurrency = resolveBatchConcurrency(Number(argv[++i]));
+    } else if (!manifestPath && !argv[i].startsWith("--")) {
+      manifestPath = argv[i];
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  if (!manifestPath) {
+    console.error("Usage: everart-forge-mcp batch <manifest.json|manifest.yaml> [--concurrency N] [--force]");
+    return 2;
+  }
+
+  await ensureStorageDir();
+  const manifest = await loadManifest(path.resolve(manifestPath));
+  const batch = prepareBatch(manifest, concurrency ?? manifest.concurrency, force);
+  const results = await executeBatch(batch, {
+    onStage: async stage => console.error(`Batch progress: ${stage}`),
+  });
+  console.log(formatBatchReport(results));
+  return results.some(result => result.status === "failed") ? 1 : 0;
+}
+
+// Start the MCP server, or run a manifest with `batch`
+async function main(): Promise<void> {
+  try {
+    await initialize();
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (process.argv[2] === "batch") {
+    let code = 1;
+    try {
+      code = await runBatchCli(process.argv.slice(3));
+    } catch (error) {
+      console.error(`Batch failed: ${(error as Error).message}`);
+    }
+    await shutdown();
+    process.exit(code);
+  }
+  await runServer();
+}
+
+// Whether this file was run directly (node build/index.js or the everart-forge-mcp bin link) rather than imported
+function isMainModule(): boolean {
+  if (!process.argv[1]) return false;
+  try {
+    return realpathSync(process.argv[1]) === realpathSync(fileURLToPath(import.meta.url));
+  } catch {
+    return false;
+  }
+}
+
+if (isMainModule()) {
+  main().catch(console.error);
+}
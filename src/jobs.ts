@@ -0,0 +1,183 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomUUID } from "crypto";
+
+// File name of the persisted job state inside the storage directory
+export const JOBS_FILENAME = "jobs.json";
+
+// Finished jobs are kept for this long so their results can still be queried
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "canceled";
+
+export interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
+  params: Record<string, any>;
+  // Free-form progress description, e.g. "creating", "polling", "saving"
+  stage?: string;
+  // Generation IDs returned by EverArt, persisted so an interrupted job can resume polling
+  generationIds?: string[];
+  result?: any;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Executes a job. Runners should stop when the signal is aborted (its reason is a JobCanceledError) and may call
+// updateJob to record progress.
+export type JobRunner = (job: Job, signal: AbortSignal) => Promise<any>;
+
+// Raised inside runners when the job was canceled
+export class JobCanceledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was canceled`);
+    this.name = "JobCanceledError";
+  }
+}
+
+const jobs = new Map<string, Job>();
+const controllers = new Map<string, AbortController>();
+const queue: { job: Job, runner: JobRunner }[] = [];
+let runningCount = 0;
+let maxConcurrentJobs = 2;
+let jobsFile: string | undefined;
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function isFinished(status: JobStatus): boolean {
+  return status === "succeeded" || status === "failed" || status === "canceled";
+}
+
+// Persist all jobs atomically; writes are serialized
+function persistJobs(): Promise<void> {
+  if (!jobsFile) return Promise.resolve();
+  const file = jobsFile;
+  const snapshot = JSON.stringify({ version: 1, jobs: [...jobs.values()] }, null, 2);
+  const write = pendingWrite.then(async () => {
+    const tempPath = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, snapshot);
+    await fs.rename(tempPath, file);
+  });
+  pendingWrite = write.catch(error => console.error("Failed to persist job state:", error));
+  return write;
+}
+
+// Load persisted jobs and return the ones that were interrupted by a restart
+export async function loadJobs(storageDir: string, concurrency?: number): Promise<Job[]> {
+  jobsFile = path.join(storageDir, JOBS_FILENAME);
+  if (concurrency && concurrency > 0) maxConcurrentJobs = concurrency;
+
+  let stored: Job[] = [];
+  try {
+    const raw = await fs.readFile(jobsFile, "utf-8");
+    stored = (JSON.parse(raw) as { jobs?: Job[] }).jobs || [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Ignoring unreadable job state in ${jobsFile}: ${(error as Error).message}`);
+    }
+  }
+
+  const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+  const interrupted: Job[] = [];
+  for (const job of stored) {
+    if (isFinished(job.status) && new Date(job.updatedAt).getTime() < cutoff) continue;
+    if (!isFinished(job.status)) {
+      job.status = "queued";
+      interrupted.push(job);
+    }
+    jobs.set(job.id, job);
+  }
+
+  await persistJobs();
+  return interrupted;
+}
+
+export function createJob(type: string, params: Record<string, any>): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    type,
+    status: "queued",
+    params,
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs.set(job.id, job);
+  void persistJobs();
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+// All known jobs, newest first
+export function listJobs(status?: JobStatus): Job[] {
+  return [...jobs.values()]
+    .filter(job => !status || job.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function updateJob(id: string, patch: Partial<Omit<Job, "id" | "type" | "createdAt">>): Promise<Job | undefined> {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+  await persistJobs();
+  return job;
+}
+
+// Queue a job to run in the background
+export function startJob(job: Job, runner: JobRunner): void {
+  queue.push({ job, runner });
+  drainQueue();
+}
+
+function drainQueue(): void {
+  while (runningCount < maxConcurrentJobs && queue.length > 0) {
+    const { job, runner } = queue.shift()!;
+    if (job.status === "canceled") continue;
+
+    runningCount++;
+    void runJob(job, runner).finally(() => {
+      runningCount--;
+      drainQueue();
+    });
+  }
+}
+
+// Record a status change of a running job. The job is updated in memory even if jobs.json can't be written;
+// persistJobs logs that failure, and it must neither fail the job nor reject runJob.
+async function setJobStatus(id: string, patch: Partial<Omit<Job, "id" | "type" | "createdAt">>): Promise<void> {
+  await updateJob(id, patch).catch(() => undefined);
+}
+
+async function runJob(job: Job, runner: JobRunner): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  try {
+    await setJobStatus(job.id, { status: "running" });
+    const result = await runner(job, controller.signal);
+    if (controller.signal.aborted) throw new JobCanceledError(job.id);
+    await setJobStatus(job.id, { status: "succeeded", stage: undefined, result });
+  } catch (error) {
+    if (controller.signal.aborted || error instanceof JobCanceledError) {
+      await setJobStatus(job.id, { status: "canceled", stage: undefined });
+    } else {
+      await setJobStatus(job.id, { status: "failed", error: (error as Error).message || String(error) });
+    }
+  } finally {
+    controllers.delete(job.id);
+  }
+}
+
+// Cancel a queued or running job. Returns undefined if the job doesn't exist.
+export async function cancelJob(id: string): Promise<Job | undefined> {
+  const job = jobs.get(id);
+  if (!job || isFinished(job.status)) return job;
+
+  // A running job stops at its next cancellation check or pending request; its partial result is discarded
+  controllers.get(id)?.abort(new JobCanceledError(id));
+  return updateJob(id, { status: "canceled", stage: undefined });
+}
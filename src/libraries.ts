@@ -0,0 +1,78 @@
+import * as path from "path";
+import { ServerConfig, LibraryConfig } from "./config.js";
+import { createLocalStorage, createS3Storage, createStorageFromEnv, StorageBackend } from "./storage.js";
+
+// Name of the library backed by the storage root (or EVERART_STORAGE)
+export const DEFAULT_LIBRARY = "default";
+
+// Library names are used in resource URIs, so keep them URI- and filename-safe
+const LIBRARY_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// A named image store with its own catalog
+export interface Library {
+  name: string;
+  description?: string;
+  storage: StorageBackend;
+  // Local directory holding the library's metadata catalog
+  metadataDir: string;
+}
+
+export interface LibrarySet {
+  libraries: Map<string, Library>;
+  defaultLibrary: string;
+}
+
+function createLibrary(name: string, options: LibraryConfig, storageDir: string): Library {
+  const type = options.storage || (options.bucket ? "s3" : "local");
+  switch (type) {
+    case "local": {
+      if (!options.path) {
+        throw new Error(`Library '${name}' needs a path`);
+      }
+      return { name, description: options.description, storage: createLocalStorage(options.path), metadataDir: options.path };
+    }
+    case "s3": {
+      if (!options.bucket) {
+        throw new Error(`Library '${name}' needs a bucket`);
+      }
+      return {
+        name,
+        description: options.description,
+        storage: createS3Storage({
+          bucket: options.bucket,
+          prefix: options.prefix,
+          region: options.region,
+          endpoint: options.endpoint,
+          forcePathStyle: options.forcePathStyle,
+          accessKeyId: options.accessKeyId,
+          secretAccessKey: options.secretAccessKey,
+          publicUrl: options.publicUrl,
+        }),
+        // Remote libraries keep their catalog under the storage root
+        metadataDir: path.join(storageDir, "libraries", name),
+      };
+    }
+    default:
+      throw new Error(`Library '${name}' has unknown storage type: ${type}. Supported types are: local, s3`);
+  }
+}
+
+// Build the default library from the storage root and environment, plus the named libraries from the config file
+export function createLibraries(config: ServerConfig, storageDir: string, env: NodeJS.ProcessEnv = process.env): LibrarySet {
+  const libraries = new Map<string, Library>();
+  libraries.set(DEFAULT_LIBRARY, { name: DEFAULT_LIBRARY, storage: createStorageFromEnv(storageDir, env), metadataDir: storageDir });
+
+  for (const [name, options] of Object.entries(config.libraries || {})) {
+    if (!LIBRARY_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid library name '${name}'. Use letters, digits, '-' and '_'.`);
+    }
+    libraries.set(name, createLibrary(name, options, storageDir));
+  }
+
+  const defaultLibrary = env.EVERART_LIBRARY || config.defaultLibrary || DEFAULT_LIBRARY;
+  if (!libraries.has(defaultLibrary)) {
+    throw new Error(`Default library '${defaultLibrary}' is not configured. Available libraries: ${[...libraries.keys()].join(", ")}`);
+  }
+
+  return { libraries, defaultLibrary };
+}
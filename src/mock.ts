@@ -0,0 +1,354 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { createHash, randomUUID } from "crypto";
+import fetch from "node-fetch";
+import sharp from "sharp";
+import { EverArtClient, EverArtImageUpload } from "./client.js";
+
+// Offline stand-in for the EverArt API. An HTTP server on 127.0.0.1 implements the endpoints the server uses
+// (generations, image uploads) and serves deterministic placeholder images; a fake client talks to it like the SDK
+// talks to the real API. Failures are requested per call with markers in the prompt:
+//
+//   [mock:401]            generation requests are rejected as unauthorized
+//   [mock:429] [mock:429x3]  the first (or first 3) generation requests get 429 with a retry-after header
+//   [mock:500x2]          the first 2 generation requests fail with 500
+//   [mock:timeout]        the generation never completes, so polling runs out
+//   [mock:fail]           the generation finishes with status FAILED and no image
+//   [mock:download-429x2] [mock:download-500]  image downloads fail the same way
+//
+// Requests with the API key "invalid" are always rejected with 401.
+
+export interface MockBackendOptions {
+  // How long generations stay STARTING and PROCESSING before they succeed, in milliseconds (default: 1500)
+  delayMs?: number;
+  // Seconds in the retry-after header of simulated 429 responses (default: 1)
+  retryAfterSeconds?: number;
+  // Port to listen on (default: any free port)
+  port?: number;
+  // Key the client sends; "invalid" simulates a rejected key (default: "mock")
+  apiKey?: string;
+}
+
+export interface MockBackend {
+  // Root URL of the stand-in, e.g. http://127.0.0.1:41234
+  url: string;
+  // Base URL of its API, in the form of EVERART_API_URL
+  apiUrl: string;
+  client: EverArtClient;
+  // "METHOD /path" of every request received, in order
+  requests: string[];
+  close(): Promise<void>;
+}
+
+// Mirrors the SDK's error: named after the HTTP status, with the response body in the message. Like the SDK's,
+// it doesn't carry the status, so retries and error reports work from the name and message alone.
+export class MockEverArtError extends Error {
+  constructor(status: number, message: string, data: unknown) {
+    super(`${message}: ${JSON.stringify(data)}`);
+    this.name = {
+      400: "EverArtInvalidRequestError",
+      401: "EverArtUnauthorizedError",
+      403: "EverArtForbiddenError",
+      404: "EverArtRecordNotFoundError",
+      451: "EverArtContentModerationError",
+    }[status] || "EverArtUnknownError";
+  }
+}
+
+interface MockGeneration {
+  id: string;
+  modelId: string;
+  prompt: string;
+  type: string;
+  width: number;
+  height: number;
+  vector: boolean;
+  // Position within its request, so images of one request differ
+  index: number;
+  createdAt: number;
+  markers: Map<string, number>;
+}
+
+const DEFAULT_DELAY_MS = 1500;
+const DEFAULT_SIZE = 1024;
+const MARKER_PATTERN = /\[mock:([a-z0-9-]+?)(?:x(\d+))?\]/gi;
+
+// Markers in a prompt, with how many requests each applies to
+function parseMarkers(prompt: string): Map<string, number> {
+  const markers = new Map<string, number>();
+  for (const match of prompt.matchAll(MARKER_PATTERN)) {
+    markers.set(match[1].toLowerCase(), match[2] ? parseInt(match[2], 10) : 1);
+  }
+  return markers;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Placeholder artwork derived from a seed: the same generation inputs always give the same image
+export function placeholderSvg(seed: string, width: number, height: number, title?: string): string {
+  const hash = createHash("sha256").update(seed).digest();
+  const color = (offset: number) => `#${hash.subarray(offset, offset + 3).toString("hex")}`;
+  const radius = Math.round(Math.min(width, height) * (0.15 + (hash[9] / 255) * 0.2));
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    (title ? `<title>${escapeXml(title)}</title>` : "") +
+    `<rect width="${width}" height="${height}" fill="${color(0)}"/>` +
+    `<circle cx="${Math.round(width / 2)}" cy="${Math.round(height * 0.4)}" r="${radius}" fill="${color(3)}"/>` +
+    `<path d="M0 ${height}L${Math.round(width * 0.4)} ${Math.round(height * 0.6)}L${width} ${height}Z" fill="${color(6)}"/>` +
+    `</svg>`;
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(status, { "Content-Type": "application/json", ...headers });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+// Start the stand-in and create a client for it
+export async function startMockBackend(options: MockBackendOptions = {}): Promise<MockBackend> {
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  const retryAfter = options.retryAfterSeconds ?? 1;
+  const generations = new Map<string, MockGeneration>();
+  const uploads = new Map<string, { contentType: string, data: Buffer }>();
+  const images = new Map<string, Promise<Buffer>>();
+  // Simulated failures already served, by marker and prompt
+  const failuresServed = new Map<string, number>();
+  const requests: string[] = [];
+  let url = "";
+
+  // Whether a marker should still fail this request, counting it if so
+  const shouldFail = (marker: string, markers: Map<string, number>, prompt: string): boolean => {
+    const limit = markers.get(marker);
+    if (limit === undefined) return false;
+    const key = `${marker}:${prompt}`;
+    const served = failuresServed.get(key) || 0;
+    if (served >= limit) return false;
+    failuresServed.set(key, served + 1);
+    return true;
+  };
+
+  // Simulated error responses shared by generation requests and downloads
+  const simulateFailure = (response: http.ServerResponse, prefix: string, markers: Map<string, number>, prompt: string): boolean => {
+    if (shouldFail(`${prefix}429`, markers, prompt)) {
+      sendJson(response, 429, { message: "Rate limit exceeded" }, { "Retry-After": String(retryAfter) });
+      return true;
+    }
+    if (shouldFail(`${prefix}500`, markers, prompt)) {
+      sendJson(response, 500, { message: "Internal server error" });
+      return true;
+    }
+    return false;
+  };
+
+  const generationJson = (generation: MockGeneration) => {
+    const elapsed = Date.now() - generation.createdAt;
+    let status = elapsed < delayMs / 2 ? "STARTING" : "PROCESSING";
+    if (!generation.markers.has("timeout") && elapsed >= delayMs) {
+      status = generation.markers.has("fail") ? "FAILED" : "SUCCEEDED";
+    }
+    return {
+      id: generation.id,
+      model_id: generation.modelId,
+      status,
+      image_url: status === "SUCCEEDED" ? `${url}/images/${generation.id}.${generation.vector ? "svg" : "png"}` : null,
+      type: generation.type,
+      created_at: new Date(generation.createdAt).toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+  };
+
+  const imageFor = (generation: MockGeneration): Promise<Buffer> => {
+    let image = images.get(generation.id);
+    if (!image) {
+      const seed = [generation.prompt, generation.modelId, generation.width, generation.height, generation.index].join("|");
+      const svg = placeholderSvg(seed, generation.width, generation.height, generation.vector ? generation.prompt : undefined);
+      image = generation.vector ? Promise.resolve(Buffer.from(svg)) : sharp(Buffer.from(svg)).png().toBuffer();
+      images.set(generation.id, image);
+    }
+    return image;
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> => {
+    const method = request.method || "GET";
+    const pathname = new URL(request.url || "/", url).pathname;
+    requests.push(`${method} ${pathname}`);
+
+    if (pathname.startsWith("/v1/")) {
+      const token = /^Bearer (.+)$/.exec(request.headers.authorization || "")?.[1];
+      if (!token || token === "invalid") {
+        return sendJson(response, 401, { message: "Unauthorized" });
+      }
+    }
+
+    let match: RegExpExecArray | null;
+    if (method === "POST" && (match = /^\/v1\/models\/([^/]+)\/generations$/.exec(pathname))) {
+      let body: any;
+      try {
+        body = JSON.parse((await readBody(request)).toString("utf-8"));
+      } catch {
+        return sendJson(response, 400, { message: "Invalid JSON body" });
+      }
+      if (typeof body?.prompt !== "string" || body.prompt.trim() === "") {
+        return sendJson(response, 400, { message: "prompt is required" });
+      }
+      const modelId = decodeURIComponent(match[1]);
+      const markers = parseMarkers(body.prompt);
+      if (markers.has("401")) {
+        return sendJson(response, 401, { message: "Unauthorized" });
+      }
+      if (simulateFailure(response, "", markers, body.prompt)) return;
+
+      const count = Math.max(1, Math.min(10, Number(body.image_count) || 1));
+      const created = Array.from({ length: count }, (_, index): MockGeneration => ({
+        id: randomUUID(),
+        modelId,
+        prompt: body.prompt,
+        type: body.type || "txt2img",
+        width: Number(body.width) || DEFAULT_SIZE,
+        height: Number(body.height) || DEFAULT_SIZE,
+        vector: modelId === "8000",
+        index,
+        createdAt: Date.now(),
+        markers,
+      }));
+      created.forEach(generation => generations.set(generation.id, generation));
+      return sendJson(response, 200, { generations: created.map(generationJson) });
+    }
+
+    if (method === "GET" && (match = /^\/v1\/generations\/([^/]+)$/.exec(pathname))) {
+      const generation = generations.get(match[1]);
+      if (!generation) return sendJson(response, 404, { message: "Generation not found" });
+      return sendJson(response, 200, { generation: generationJson(generation) });
+    }
+
+    if (method === "POST" && pathname === "/v1/images/uploads") {
+      let body: any;
+      try {
+        body = JSON.parse((await readBody(request)).toString("utf-8"));
+      } catch {
+        return sendJson(response, 400, { message: "Invalid JSON body" });
+      }
+      if (!Array.isArray(body?.images)) return sendJson(response, 400, { message: "images is required" });
+      const imageUploads: EverArtImageUpload[] = body.images.map(() => {
+        const id = randomUUID();
+        return { id, upload_token: id, upload_url: `${url}/uploads/${id}`, file_url: `${url}/uploads/${id}` };
+      });
+      return sendJson(response, 200, { image_uploads: imageUploads });
+    }
+
+    if ((match = /^\/uploads\/([^/]+)$/.exec(pathname))) {
+      if (method === "PUT") {
+        uploads.set(match[1], { contentType: request.headers["content-type"] || "application/octet-stream", data: await readBody(request) });
+        response.writeHead(200);
+        return void response.end();
+      }
+      const upload = uploads.get(match[1]);
+      if (method !== "GET" || !upload) return sendJson(response, 404, { message: "Not found" });
+      response.writeHead(200, { "Content-Type": upload.contentType });
+      return void response.end(upload.data);
+    }
+
+    if (method === "GET" && (match = /^\/images\/([^/]+)\.(png|svg)$/.exec(pathname))) {
+      const generation = generations.get(match[1]);
+      if (!generation) return sendJson(response, 404, { message: "Not found" });
+      if (simulateFailure(response, "download-", generation.markers, generation.prompt)) return;
+      const data = await imageFor(generation);
+      response.writeHead(200, { "Content-Type": generation.vector ? "image/svg+xml" : "image/png" });
+      return void response.end(data);
+    }
+
+    sendJson(response, 404, { message: "Not found" });
+  };
+
+  const server = http.createServer((request, response) => {
+    handle(request, response).catch(error => {
+      if (!response.headersSent) sendJson(response, 500, { message: (error as Error).message });
+      else response.destroy();
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+  });
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const apiUrl = `${url}/v1`;
+
+  return {
+    url,
+    apiUrl,
+    client: createMockClient(apiUrl, options.apiKey || "mock"),
+    requests,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// A client for the stand-in with the SDK's interface and error behaviour. Like the SDK, it only forwards the image,
+// size, image count and webhook options of a generation.
+export function createMockClient(apiUrl: string, apiKey: string): EverArtClient {
+  const call = async (method: string, endpoint: string, failure: string, body?: unknown): Promise<any> => {
+    const response = await fetch(`${apiUrl}/${endpoint}`, {
+      method,
+      headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data: any = await response.json().catch(() => undefined);
+    if (response.status !== 200) throw new MockEverArtError(response.status, failure, data);
+    return data;
+  };
+  return {
+    v1: {
+      generations: {
+        create: async (model, prompt, mode, options = {}) => {
+          const data = await call("POST", `models/${encodeURIComponent(model)}/generations`, "Failed to create generations", {
+            prompt,
+            type: mode,
+            image: options.image,
+            height: options.height,
+            width: options.width,
+            image_count: options.imageCount,
+            webhook_url: options.webhookUrl,
+          });
+          if (!Array.isArray(data?.generations)) throw new MockEverArtError(200, "Failed to create generations", data);
+          return data.generations;
+        },
+        fetch: async generationId =>
+          (await call("GET", `generations/${encodeURIComponent(generationId)}`, "Failed to fetch generation")).generation,
+      },
+      images: {
+        uploads: async images => {
+          const data = await call("POST", "images/uploads", "Failed to get upload URLs", { images });
+          return data.image_uploads;
+        },
+      },
+    },
+  };
+}
+
+// Whether EVERART_MOCK selects the mock backend
+export function isMockEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return ["1", "true", "yes"].includes(env.EVERART_MOCK?.toLowerCase() || "");
+}
+
+// Mock backend options from EVERART_MOCK_DELAY_MS and EVERART_MOCK_PORT
+export function mockOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): MockBackendOptions {
+  const number = (name: string): number | undefined => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`${name} must be a whole number of 0 or more`);
+    return parsed;
+  };
+  return {
+    delayMs: number("EVERART_MOCK_DELAY_MS"),
+    port: number("EVERART_MOCK_PORT"),
+  };
+}
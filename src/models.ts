@@ -0,0 +1,245 @@
+import { ModelConfig, ServerConfig } from "./config.js";
+
+// Formats generated images can be saved as; "svg" means the model produces vectors
+export const MODEL_FORMATS = ["svg", "png", "jpg", "jpeg", "webp"];
+
+const RASTER_FORMATS = ["png", "jpg", "jpeg", "webp"];
+
+// Experimental generation parameters, named as in tool arguments. The EverArt API doesn't document them and
+// the SDK doesn't forward them, so no model accepts them unless its config entry lists them under "parameters".
+export const GENERATION_PARAMETERS = ["negative_prompt", "seed", "guidance", "steps"] as const;
+
+export type GenerationParameter = typeof GENERATION_PARAMETERS[number];
+
+// Values for the experimental generation parameters
+export interface GenerationSettings {
+  // What the image should not contain
+  negativePrompt?: string;
+  // Random seed; only known to reproduce an image when the API echoes it back
+  seed?: number;
+  // How closely the image follows the prompt
+  guidance?: number;
+  // Number of denoising steps
+  steps?: number;
+}
+
+// Largest seed accepted (unsigned 32-bit)
+const MAX_SEED = 4294967295;
+
+// Model IDs appear in combined IDs ("8000:Recraft-Vector") and file names, so keep them simple
+const MODEL_ID_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/i;
+
+// What the server knows about an EverArt model
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // Formats output can be saved as; the first is the default
+  formats: string[];
+  // Smallest and largest side the model generates, in pixels
+  minSide: number;
+  maxSide: number;
+  // Extra fields sent in the body of every generation request. The SDK drops fields it doesn't know, so models
+  // with options are generated with a direct API request.
+  options?: Record<string, unknown>;
+  // Relative cost per image, FLUX1.1 = 1
+  cost: number;
+  // Whether the model can edit a source image (img2img)
+  img2img: boolean;
+  // Experimental generation parameters enabled in the config file; sent with a direct API request
+  parameters: GenerationParameter[];
+}
+
+export interface ModelRegistry {
+  models: Map<string, ModelDefinition>;
+  defaultModel: string;
+}
+
+// Raised when a tool call names a model the registry doesn't know
+export class UnknownModelError extends Error {
+  constructor(model: string, registry: ModelRegistry) {
+    super(`Invalid model ID: ${model}. Valid models are: ${[...registry.models.keys()].join(", ")}`);
+    this.name = "UnknownModelError";
+  }
+}
+
+const DEFAULT_MIN_SIDE = 256;
+const DEFAULT_MAX_SIDE = 2048;
+
+export const BUILTIN_MODELS: ModelDefinition[] = [
+  { id: "5000", name: "FLUX1.1", description: "Standard quality", formats: RASTER_FORMATS, minSide: DEFAULT_MIN_SIDE, maxSide: DEFAULT_MAX_SIDE, cost: 1, img2img: true, parameters: [] },
+  { id: "9000", name: "FLUX1.1-ultra", description: "Ultra high quality", formats: RASTER_FORMATS, minSide: DEFAULT_MIN_SIDE, maxSide: DEFAULT_MAX_SIDE, cost: 2, img2img: true, parameters: [] },
+  {
+    id: "6000",
+    name: "SD3.5",
+    description: "Stable Diffusion 3.5",
+    formats: RASTER_FORMATS,
+    minSide: DEFAULT_MIN_SIDE,
+    maxSide: DEFAULT_MAX_SIDE,
+    cost: 1,
+    img2img: true,
+    parameters: [],
+  },
+  { id: "7000", name: "Recraft-Real", description: "Photorealistic style", formats: RASTER_FORMATS, minSide: DEFAULT_MIN_SIDE, maxSide: DEFAULT_MAX_SIDE, cost: 1, img2img: true, parameters: [] },
+  {
+    id: "8000",
+    name: "Recraft-Vector",
+    description: "Vector art style",
+    formats: ["svg", ...RASTER_FORMATS],
+    minSide: DEFAULT_MIN_SIDE,
+    maxSide: DEFAULT_MAX_SIDE,
+    cost: 2,
+    img2img: true,
+    parameters: [],
+  },
+];
+
+// Check a model entry from the config file and merge it over the built-in definition, if there is one
+function modelFromConfig(id: string, options: ModelConfig, builtin?: ModelDefinition): ModelDefinition {
+  if (!MODEL_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid model ID '${id}'. Use letters, digits, '.', '-' and '_'.`);
+  }
+  if (!builtin && !options.name) {
+    throw new Error(`Model '${id}' needs a name`);
+  }
+  const formats = options.formats ?? builtin?.formats ?? RASTER_FORMATS;
+  if (!Array.isArray(formats) || formats.length === 0 || !formats.every(f => MODEL_FORMATS.includes(f))) {
+    throw new Error(`Model '${id}' formats must be a non-empty list of: ${MODEL_FORMATS.join(", ")}`);
+  }
+  const minSide = options.minSide ?? builtin?.minSide ?? DEFAULT_MIN_SIDE;
+  const maxSide = options.maxSide ?? builtin?.maxSide ?? DEFAULT_MAX_SIDE;
+  if (!Number.isInteger(minSide) || !Number.isInteger(maxSide) || minSide < 1 || minSide > maxSide) {
+    throw new Error(`Model '${id}' needs integer minSide and maxSide with minSide <= maxSide`);
+  }
+  const cost = options.cost ?? builtin?.cost ?? 1;
+  if (typeof cost !== "number" || cost < 0) {
+    throw new Error(`Model '${id}' cost must be a number of 0 or more`);
+  }
+  if (options.options !== undefined && (typeof options.options !== "object" || options.options === null || Array.isArray(options.options))) {
+    throw new Error(`Model '${id}' options must be an object`);
+  }
+  const parameters = options.parameters ?? builtin?.parameters ?? [];
+  if (!Array.isArray(parameters) || !parameters.every(p => GENERATION_PARAMETERS.includes(p as GenerationParameter))) {
+    throw new Error(`Model '${id}' parameters must be a list of: ${GENERATION_PARAMETERS.join(", ")}`);
+  }
+
+  return {
+    id,
+    name: options.name ?? builtin!.name,
+    description: options.description ?? builtin?.description ?? "",
+    formats,
+    minSide,
+    maxSide,
+    options: options.options ?? builtin?.options,
+    cost,
+    img2img: options.img2img ?? builtin?.img2img ?? true,
+    parameters: parameters as GenerationParameter[],
+  };
+}
+
+// Build the registry from the built-in models plus models added or changed in the config file
+export function createModelRegistry(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): ModelRegistry {
+  const models = new Map(BUILTIN_MODELS.map(model => [model.id, model]));
+  for (const [id, options] of Object.entries(config.models || {})) {
+    if (!options || typeof options !== "object") {
+      throw new Error(`Model '${id}' must be an object`);
+    }
+    models.set(id, modelFromConfig(id, options, models.get(id)));
+  }
+
+  const registry: ModelRegistry = { models, defaultModel: "" };
+  const requested = env.EVERART_DEFAULT_MODEL || config.defaultModel || "5000";
+  const defaultModel = findModel(registry, requested);
+  if (!defaultModel) {
+    throw new Error(`Default model '${requested}' is not configured. Available models: ${[...models.keys()].join(", ")}`);
+  }
+  registry.defaultModel = defaultModel.id;
+  return registry;
+}
+
+// Extract the model ID when a combined format like "8000:Recraft-Vector" was provided
+export function normalizeModelId(modelInput: string): string {
+  return modelInput.includes(":") ? modelInput.split(":")[0] : modelInput;
+}
+
+// Look up a model by ID, combined ID or name (case-insensitive)
+export function findModel(registry: ModelRegistry, input: string): ModelDefinition | undefined {
+  const id = normalizeModelId(String(input).trim());
+  return registry.models.get(id) ||
+    [...registry.models.values()].find(model => model.name.toLowerCase() === id.toLowerCase());
+}
+
+// Like findModel, for tool arguments: a missing model means the default one
+export function resolveModel(registry: ModelRegistry, input?: unknown): ModelDefinition {
+  if (input === undefined || input === null || input === "") return registry.models.get(registry.defaultModel)!;
+  const model = findModel(registry, String(input));
+  if (!model) throw new UnknownModelError(String(input), registry);
+  return model;
+}
+
+// Whether the model generates SVG itself
+export function isVectorModel(model: ModelDefinition): boolean {
+  return model.formats.includes("svg");
+}
+
+// "Recraft-Vector (Vector art style)"
+export function modelLabel(model: ModelDefinition): string {
+  return model.description ? `${model.name} (${model.description})` : model.name;
+}
+
+// Display name for a model ID from the catalog, which may name a model that is no longer configured
+export function modelDisplayName(registry: ModelRegistry, id: string): string {
+  const model = registry.models.get(id);
+  return model ? modelLabel(model) : id;
+}
+
+// Check generation parameter values, independent of the model
+export function validateGenerationSettings(settings: GenerationSettings): void {
+  if (settings.negativePrompt !== undefined && typeof settings.negativePrompt !== "string") {
+    throw new Error("negative_prompt must be a string");
+  }
+  if (settings.seed !== undefined && !(Number.isInteger(settings.seed) && settings.seed >= 0 && settings.seed <= MAX_SEED)) {
+    throw new Error(`seed must be an integer between 0 and ${MAX_SEED}`);
+  }
+  if (settings.guidance !== undefined && !(typeof settings.guidance === "number" && settings.guidance > 0 && settings.guidance <= 30)) {
+    throw new Error("guidance must be a number greater than 0 and at most 30");
+  }
+  if (settings.steps !== undefined && !(Number.isInteger(settings.steps) && settings.steps >= 1 && settings.steps <= 150)) {
+    throw new Error("steps must be an integer between 1 and 150");
+  }
+}
+
+// Tool argument names of the parameters that are set but the model doesn't accept
+export function unsupportedParameters(model: ModelDefinition, settings: GenerationSettings): GenerationParameter[] {
+  const used: GenerationParameter[] = [];
+  if (settings.negativePrompt) used.push("negative_prompt");
+  if (settings.seed !== undefined) used.push("seed");
+  if (settings.guidance !== undefined) used.push("guidance");
+  if (settings.steps !== undefined) used.push("steps");
+  return used.filter(parameter => !model.parameters.includes(parameter));
+}
+
+// Multi-line summary of a model for list_models
+export function describeModel(model: ModelDefinition, isDefault: boolean = false): string {
+  return [
+    `• ${model.id}:${model.name}${model.description ? ` - ${model.description}` : ""}${isDefault ? " (default)" : ""}`,
+    `  Formats: ${model.formats.join(", ")}${isVectorModel(model) ? " (native SVG)" : ""}`,
+    `  Generated size: ${model.minSide}-${model.maxSide}px per side`,
+    `  Relative cost: ${model.cost}× per image`,
+    `  Image editing: ${model.img2img ? "yes" : "no"}`,
+    ...(model.parameters.length > 0 ? [`  Experimental parameters: ${model.parameters.join(", ")}`] : []),
+    ...(model.options && Object.keys(model.options).length > 0 ? [`  Options: ${JSON.stringify(model.options)}`] : []),
+  ].join("\n");
+}
+
+// "5000:FLUX1.1, 9000:FLUX1.1-ultra, ..." for tool descriptions
+export function formatModelIds(registry: ModelRegistry): string {
+  return [...registry.models.values()].map(model => `${model.id}:${model.name}`).join(", ");
+}
+
+// One line per model for tool descriptions
+export function formatModelList(registry: ModelRegistry): string {
+  return [...registry.models.values()]
+    .map(model => `- ${model.id}:${model.name}: ${model.description}${isVectorModel(model) ? " (SVG format)" : ""}`)
+    .join("\n");
+}
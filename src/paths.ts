@@ -0,0 +1,99 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { ServerConfig, resolveConfigPath } from "./config.js";
+
+// What to do when an output file already exists
+export type OverwritePolicy = "fail" | "rename" | "replace";
+
+export const OVERWRITE_POLICIES: OverwritePolicy[] = ["fail", "rename", "replace"];
+
+// Raised when a file argument points outside the allowed roots or escapes its base directory
+export class PathNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PathNotAllowedError";
+  }
+}
+
+// Raised when an output file exists and the overwrite policy is "fail"
+export class FileExistsError extends Error {
+  constructor(location: string) {
+    super(`File already exists: ${location}. Pass overwrite: "rename" to keep both files or "replace" to overwrite it.`);
+    this.name = "FileExistsError";
+  }
+}
+
+// Whether child is parent or inside it (both absolute)
+export function isWithin(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+// Resolve symlinks in the deepest existing ancestor of a path, keeping the part that doesn't exist yet
+async function realpathOfExisting(target: string): Promise<string> {
+  let existing = target;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(existing), ...missing.reverse());
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      const parent = path.dirname(existing);
+      if ((code !== "ENOENT" && code !== "ENOTDIR") || parent === existing) throw error;
+      missing.push(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+// Resolve a user-supplied path and check it is inside one of the roots, both as written and after following symlinks
+export async function resolveAllowedPath(target: string, roots: string[]): Promise<string> {
+  const resolved = path.resolve(target);
+  const root = roots.find(r => isWithin(r, resolved));
+  if (!root) {
+    throw new PathNotAllowedError(
+      `Path is outside the allowed directories: ${target}. Allowed directories: ${roots.join(", ")}`
+    );
+  }
+
+  const [realTarget, realRoot] = await Promise.all([realpathOfExisting(resolved), realpathOfExisting(root)]);
+  if (!isWithin(realRoot, realTarget)) {
+    throw new PathNotAllowedError(`Path resolves through a symbolic link to outside the allowed directories: ${target}`);
+  }
+  return resolved;
+}
+
+// Join a relative path onto a base directory, rejecting absolute paths and ".." escapes
+export function joinWithin(baseDir: string, relativePath: string, description: string): string {
+  const joined = path.resolve(baseDir, relativePath);
+  if (path.isAbsolute(relativePath) || !isWithin(path.resolve(baseDir), joined)) {
+    throw new PathNotAllowedError(`${description} must stay inside ${baseDir}: ${relativePath}`);
+  }
+  return joined;
+}
+
+// Writable roots: EVERART_WRITABLE_ROOTS (separated like PATH), then writableRoots in the config file,
+// otherwise the user's home directory
+export function resolveWritableRoots(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): string[] {
+  const configured = env.EVERART_WRITABLE_ROOTS
+    ? env.EVERART_WRITABLE_ROOTS.split(path.delimiter).filter(Boolean).map(root => resolveConfigPath(root, process.cwd()))
+    : config.writableRoots;
+  return configured && configured.length > 0 ? configured : [os.homedir()];
+}
+
+// Overwrite policy from EVERART_OVERWRITE or the config file (default: rename)
+export function resolveOverwritePolicy(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): OverwritePolicy {
+  const policy = (env.EVERART_OVERWRITE || config.overwrite || "rename").toLowerCase();
+  if (!OVERWRITE_POLICIES.includes(policy as OverwritePolicy)) {
+    throw new Error(`Invalid overwrite policy: ${policy}. Supported policies are: ${OVERWRITE_POLICIES.join(", ")}`);
+  }
+  return policy as OverwritePolicy;
+}
+
+// Candidate names for the "rename" policy: name.ext, name-1.ext, name-2.ext, ...
+export function numberedName(name: string, attempt: number): string {
+  if (attempt === 0) return name;
+  const ext = path.extname(name);
+  return `${name.slice(0, name.length - ext.length)}-${attempt}${ext}`;
+}
@@ -0,0 +1,190 @@
+import { ServerConfig } from "./config.js";
+
+// How requests to the EverArt API and image downloads are retried, timed out and polled
+export interface RetryPolicy {
+  // Attempts per request, including the first
+  attempts: number;
+  // Backoff before the second attempt; doubles for each further attempt, with jitter
+  baseDelayMs: number;
+  // Longest wait between attempts, including waits asked for with retry-after
+  maxDelayMs: number;
+  // Time limit for a single attempt
+  requestTimeoutMs: number;
+  // Time limit for a request including all its attempts and waits
+  deadlineMs: number;
+  // How often a generation's status is checked while it runs
+  pollIntervalMs: number;
+  // How long to wait for a generation to finish
+  pollTimeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  requestTimeoutMs: 30000,
+  deadlineMs: 120000,
+  pollIntervalMs: 3000,
+  pollTimeoutMs: 90000,
+};
+
+// Environment variables overriding each policy field
+const RETRY_ENV: Record<keyof RetryPolicy, string> = {
+  attempts: "EVERART_RETRY_ATTEMPTS",
+  baseDelayMs: "EVERART_RETRY_BASE_DELAY_MS",
+  maxDelayMs: "EVERART_RETRY_MAX_DELAY_MS",
+  requestTimeoutMs: "EVERART_REQUEST_TIMEOUT_MS",
+  deadlineMs: "EVERART_RETRY_DEADLINE_MS",
+  pollIntervalMs: "EVERART_POLL_INTERVAL_MS",
+  pollTimeoutMs: "EVERART_POLL_TIMEOUT_MS",
+};
+
+// A failed HTTP request, with the wait the server asked for in a retry-after header
+export class HttpStatusError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+// Retry policy: environment variables, then the retry section of the config file, then the defaults
+export function resolveRetryPolicy(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const key of Object.keys(RETRY_ENV) as (keyof RetryPolicy)[]) {
+    const fromEnv = env[RETRY_ENV[key]];
+    const value = fromEnv !== undefined && fromEnv !== "" ? Number(fromEnv) : config.retry?.[key];
+    if (value === undefined) continue;
+    const minimum = key === "attempts" || key === "requestTimeoutMs" || key === "deadlineMs" || key === "pollTimeoutMs" ? 1 : 0;
+    if (!Number.isInteger(value) || value < minimum) {
+      const source = fromEnv !== undefined && fromEnv !== "" ? RETRY_ENV[key] : `retry.${key}`;
+      throw new Error(`${source} must be a whole number of ${minimum} or more`);
+    }
+    policy[key] = value;
+  }
+  return policy;
+}
+
+// Milliseconds to wait from a retry-after header given in seconds or as an HTTP date
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Whether a failed attempt is worth repeating. Rejected requests (bad input, credentials, missing records) fail
+// the same way every time; rate limits, server errors, timeouts and network errors may not.
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const name = (error as Error)?.name;
+  return !["EverArtInvalidRequestError", "EverArtUnauthorizedError", "EverArtForbiddenError",
+    "EverArtContentModerationError", "EverArtRecordNotFoundError"].includes(name);
+}
+
+// Backoff before attempt number `attempt` + 1: exponential, capped, with the upper half jittered
+export function backoffDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + random() * delay / 2);
+}
+
+// Wait, stopping early with the signal's reason when it is aborted
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Settle with the promise, or reject as soon as the signal is aborted. For calls that can't be aborted themselves,
+// such as the SDK's, so the caller stops waiting for them.
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+export interface RetryOptions {
+  // Cancels the request, e.g. when the MCP client cancels the tool call or a job is canceled
+  signal?: AbortSignal;
+  // Describes the request in timeout errors, e.g. "Image download"
+  description?: string;
+}
+
+// Run a request with the retry policy. Each attempt gets a signal that aborts when the attempt times out or the
+// request is canceled. Retryable failures are repeated after a jittered backoff, or after the server's retry-after
+// if it asked for one, until the attempts or the deadline run out; the last failure is then thrown.
+// Cancellation throws the signal's reason right away.
+export async function withRetry<T>(operation: (signal: AbortSignal) => Promise<T>, policy: RetryPolicy, options: RetryOptions = {}): Promise<T> {
+  const { signal, description = "Request" } = options;
+  const deadline = Date.now() + policy.deadlineMs;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    const timeoutMs = Math.min(policy.requestTimeoutMs, Math.max(deadline - Date.now(), 1));
+    // Aborted by a timer of our own rather than AbortSignal.timeout, which doesn't keep the process alive while it
+    // waits, and by the caller's signal, forwarded by hand since AbortSignal.any needs Node 20.3
+    const attemptController = new AbortController();
+    const attemptSignal = attemptController.signal;
+    const timer = setTimeout(() => attemptController.abort(new Error(`${description} timed out after ${Math.ceil(timeoutMs / 1000)}s`)), timeoutMs);
+    const onAbort = () => attemptController.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let error: unknown;
+    try {
+      return await raceAbort(operation(attemptSignal), attemptSignal);
+    } catch (caught) {
+      signal?.throwIfAborted();
+      // Not canceled, so an aborted attempt timed out
+      error = attemptSignal.aborted ? attemptSignal.reason : caught;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (attempt >= policy.attempts || !isRetryableError(error)) throw error;
+    const retryAfter = (error as { retryAfterMs?: unknown }).retryAfterMs;
+    const delay = typeof retryAfter === "number"
+      ? Math.min(retryAfter, policy.maxDelayMs)
+      : backoffDelay(policy, attempt);
+    // Give up now rather than wait past the deadline
+    if (Date.now() + delay >= deadline) throw error;
+    await sleep(delay, signal);
+  }
+}
+
+export interface PollOptions {
+  intervalMs: number;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  // Names what is polled in the timeout error, e.g. "Generation 123"
+  description: string;
+}
+
+// Call check every interval until it returns a value, the timeout passes or the signal is aborted
+export async function pollUntil<T>(check: () => Promise<T | undefined>, options: PollOptions): Promise<T> {
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    options.signal?.throwIfAborted();
+    const result = await check();
+    if (result !== undefined) return result;
+    if (Date.now() + options.intervalMs > deadline) {
+      throw new Error(`${options.description} did not complete within ${Math.ceil(options.timeoutMs / 1000)}s`);
+    }
+    await sleep(options.intervalMs, options.signal);
+  }
+}
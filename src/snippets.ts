@@ -0,0 +1,132 @@
+import { buildSvgComponent } from "./components.js";
+import type { WebFramework } from "./frameworks.js";
+
+// A code example for using a saved asset
+export interface UsageSnippet {
+  label: string;
+  // Fence language for Markdown output
+  language: string;
+  code: string;
+}
+
+// The asset a snippet refers to: a served file with a URL, or a file in the source directory with an import path
+export interface SnippetAsset {
+  // URL path the asset is served at
+  url?: string;
+  // Import specifier relative to the framework's source directory, e.g. "./assets/logo.png"
+  importPath?: string;
+  framework: WebFramework;
+  alt: string;
+  width?: number;
+  height?: number;
+  // SVG markup, for the inline React component
+  svg?: string;
+}
+
+// Frameworks whose projects render with React
+const REACT_FRAMEWORKS = ["next", "react", "remix", "gatsby", "vite"];
+
+// Inline components are only offered for SVGs small enough to paste into source code
+const MAX_INLINE_SVG_BYTES = 20000;
+
+// Escape a value for use inside an HTML/JSX attribute
+export function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Usage examples for an asset saved into a web project, tailored to the project's framework
+export function buildUsageSnippets(asset: SnippetAsset): UsageSnippet[] {
+  const { url, importPath, framework, width, height } = asset;
+  const alt = escapeAttribute(asset.alt);
+  const size = (jsx: boolean) => width && height
+    ? (jsx ? ` width={${width}} height={${height}}` : ` width="${width}" height="${height}"`)
+    : "";
+  const snippets: UsageSnippet[] = [];
+
+  if (importPath) {
+    // Images in the source directory are imported, so the bundler fingerprints them and rewrites their URL.
+    // The import path is relative to the source directory, so both snippets hold for files directly inside it.
+    const from = `from a file directly in ${framework.sourceDir}/`;
+    snippets.push({
+      label: `${framework.name} static import (${from})`,
+      language: "tsx",
+      code: `import imageUrl from "${importPath}";\n\n<img src={imageUrl} alt="${alt}"${size(true)} />`,
+    });
+    snippets.push({
+      label: `CSS background-image (${from})`,
+      language: "css",
+      code: `.image {\n  background-image: url("${importPath}");\n  background-size: cover;\n}`,
+    });
+  } else if (url) {
+    switch (framework.id) {
+      case "next":
+        snippets.push({
+          label: "Next.js <Image>",
+          language: "tsx",
+          code: `import Image from "next/image";\n\n<Image src="${url}" alt="${alt}"${width && height ? size(true) : " fill"} />`,
+        });
+        break;
+      case "vite":
+        // Files in the public directory are served as-is; import.meta.env.BASE_URL keeps them working under a base path
+        snippets.push({
+          label: "Vite public asset",
+          language: "tsx",
+          code: `const imageUrl = \`\${import.meta.env.BASE_URL}${url.replace(/^\//, "")}\`;\n\n<img src={imageUrl} alt="${alt}"${size(true)} />`,
+        });
+        break;
+      case "remix":
+        // public/ is served from the site root by both the classic compiler and Remix on Vite
+        snippets.push({
+          label: "Remix <img>",
+          language: "tsx",
+          code: `<img src="${url}" alt="${alt}"${size(true)} />`,
+        });
+        break;
+      case "vue":
+      case "nuxt":
+        snippets.push({
+          label: "Vue <img>",
+          language: "vue",
+          code: `<template>\n  <img src="${url}" alt="${alt}"${size(false)} />\n</template>`,
+        });
+        break;
+      default:
+        snippets.push({
+          label: REACT_FRAMEWORKS.includes(framework.id) ? "JSX <img>" : "HTML <img>",
+          language: REACT_FRAMEWORKS.includes(framework.id) ? "tsx" : "html",
+          code: REACT_FRAMEWORKS.includes(framework.id)
+            ? `<img src="${url}" alt="${alt}"${size(true)} />`
+            : `<img src="${url}" alt="${alt}"${size(false)} loading="lazy">`,
+        });
+    }
+
+    snippets.push({
+      label: "CSS background-image",
+      language: "css",
+      code: `.image {\n  background-image: url("${url}");\n  background-size: cover;\n}`,
+    });
+  }
+
+  if (asset.svg && REACT_FRAMEWORKS.includes(framework.id) && Buffer.byteLength(asset.svg) <= MAX_INLINE_SVG_BYTES) {
+    try {
+      snippets.push({
+        label: "Inline React SVG component",
+        language: "tsx",
+        code: buildSvgComponent(asset.svg, importPath || decodeURIComponent(url || "image.svg"), "react").code,
+      });
+    } catch {
+      // Markup svgo can't parse gets no component; the file itself was saved fine
+    }
+  }
+
+  return snippets;
+}
+
+// Render snippets as Markdown code blocks
+export function formatUsageSnippets(snippets: UsageSnippet[]): string {
+  return snippets.map(s => `${s.label}:\n\`\`\`${s.language}\n${s.code}\n\`\`\``).join("\n\n");
+}
@@ -0,0 +1,273 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { resolveAllowedPath } from "./paths.js";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+
+// A file in a storage backend, addressed by a key relative to the backend root
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageWriteResult {
+  // Local path for filesystem backends, otherwise a backend URI such as s3://bucket/key
+  location: string;
+  publicUrl?: string;
+}
+
+// Persistence for the default image store
+export interface StorageBackend {
+  readonly type: string;
+  // Human-readable description of where files go, e.g. a directory or s3://bucket/prefix
+  readonly description: string;
+  write(key: string, data: Buffer, contentType: string): Promise<StorageWriteResult>;
+  read(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  list(): Promise<StoredObject[]>;
+  // Location for a key, in the same form write() returns
+  location(key: string): string;
+  // Key for a location returned by write() or location(), if it belongs to this backend
+  keyFor(location: string): string | undefined;
+  // Absolute path on disk when the backend stores files locally
+  localPath(key: string): string | undefined;
+  publicUrl(key: string): string | undefined;
+}
+
+// Raised when a key doesn't exist in the backend
+export class StorageNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Not found in storage: ${key}`);
+    this.name = "StorageNotFoundError";
+  }
+}
+
+// Raised when a key is absolute or contains "." or ".." segments
+export class InvalidStorageKeyError extends Error {
+  constructor(key: string) {
+    super(`Invalid storage key: ${key}. Keys are relative paths without "." or ".." segments.`);
+    this.name = "InvalidStorageKeyError";
+  }
+}
+
+// Keys are "/"-separated relative paths; reject anything that could address a file outside the backend root
+function validateKey(key: string): string {
+  const segments = key.split(/[\\/]/);
+  if (!key || key.startsWith("/") || path.isAbsolute(key) || segments.some(s => s === "" || s === "." || s === "..")) {
+    throw new InvalidStorageKeyError(key);
+  }
+  return segments.join("/");
+}
+
+// Filesystem backend rooted at a directory
+export function createLocalStorage(rootDir: string): StorageBackend {
+  const root = path.resolve(rootDir);
+  const resolveKey = (key: string) => path.join(root, validateKey(key));
+  // Also reject keys that reach outside the root through a symbolic link
+  const safePath = (key: string) => resolveAllowedPath(resolveKey(key), [root]);
+
+  return {
+    type: "local",
+    description: root,
+
+    async write(key, data) {
+      const filepath = await safePath(key);
+      await fs.mkdir(path.dirname(filepath), { recursive: true });
+      await fs.writeFile(filepath, data);
+      return { location: filepath };
+    },
+
+    async read(key) {
+      try {
+        return await fs.readFile(await safePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new StorageNotFoundError(key);
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      const filepath = await safePath(key);
+      try {
+        await fs.access(filepath);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async list() {
+      let files: string[];
+      try {
+        files = await fs.readdir(root);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const objects: StoredObject[] = [];
+      for (const file of files) {
+        try {
+          const stats = await fs.stat(path.join(root, file));
+          if (stats.isFile()) objects.push({ key: file, size: stats.size, lastModified: stats.mtime });
+        } catch {
+          // Removed while listing
+        }
+      }
+      return objects;
+    },
+
+    location: resolveKey,
+
+    keyFor(location) {
+      const relative = path.relative(root, path.resolve(location));
+      if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+      return relative.split(path.sep).join("/");
+    },
+
+    localPath: resolveKey,
+
+    publicUrl() {
+      return undefined;
+    },
+  };
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  prefix?: string;
+  region?: string;
+  // Custom endpoint for S3-compatible services such as MinIO, R2 or Spaces
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Base URL objects are publicly served from, e.g. a CDN in front of the bucket
+  publicUrl?: string;
+}
+
+// S3-compatible object storage backend
+export function createS3Storage(options: S3StorageOptions): StorageBackend {
+  const prefix = options.prefix ? options.prefix.replace(/^\/+|\/+$/g, "") + "/" : "";
+  const uriPrefix = `s3://${options.bucket}/${prefix}`;
+  const client = new S3Client({
+    region: options.region || "us-east-1",
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle ?? Boolean(options.endpoint),
+    ...(options.accessKeyId && options.secretAccessKey
+      ? { credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey } }
+      : {}),
+  });
+
+  const objectKey = (key: string) => prefix + validateKey(key);
+
+  const isNotFound = (error: any) =>
+    error?.name === "NoSuchKey" || error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404;
+
+  const publicUrl = (key: string) =>
+    options.publicUrl
+      ? `${options.publicUrl.replace(/\/+$/, "")}/${(prefix + key).split("/").map(encodeURIComponent).join("/")}`
+      : undefined;
+
+  return {
+    type: "s3",
+    description: uriPrefix.replace(/\/$/, ""),
+
+    async write(key, data, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: objectKey(key),
+        Body: data,
+        ContentType: contentType,
+      }));
+      return { location: uriPrefix + key, publicUrl: publicUrl(key) };
+    },
+
+    async read(key) {
+      try {
+        const response = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }));
+        const bytes = await response.Body!.transformToByteArray();
+        return Buffer.from(bytes);
+      } catch (error) {
+        if (isNotFound(error)) throw new StorageNotFoundError(key);
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async list() {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const response = await client.send(new ListObjectsV2Command({
+          Bucket: options.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+        for (const object of response.Contents || []) {
+          const key = object.Key!.slice(prefix.length);
+          // Only direct children, matching the flat layout of the local store
+          if (!key || key.includes("/")) continue;
+          objects.push({ key, size: object.Size || 0, lastModified: object.LastModified || new Date(0) });
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+      return objects;
+    },
+
+    location(key) {
+      return uriPrefix + key;
+    },
+
+    keyFor(location) {
+      return location.startsWith(uriPrefix) ? location.slice(uriPrefix.length) : undefined;
+    },
+
+    localPath() {
+      return undefined;
+    },
+
+    publicUrl,
+  };
+}
+
+// Create the storage backend selected by EVERART_STORAGE ("local" by default, or "s3")
+export function createStorageFromEnv(defaultDir: string, env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const type = (env.EVERART_STORAGE || "local").toLowerCase();
+  switch (type) {
+    case "local":
+      return createLocalStorage(defaultDir);
+    case "s3": {
+      if (!env.EVERART_S3_BUCKET) {
+        throw new Error("EVERART_S3_BUCKET must be set when EVERART_STORAGE is 's3'");
+      }
+      return createS3Storage({
+        bucket: env.EVERART_S3_BUCKET,
+        prefix: env.EVERART_S3_PREFIX,
+        region: env.EVERART_S3_REGION || env.AWS_REGION,
+        endpoint: env.EVERART_S3_ENDPOINT,
+        forcePathStyle: env.EVERART_S3_FORCE_PATH_STYLE ? env.EVERART_S3_FORCE_PATH_STYLE === "true" : undefined,
+        accessKeyId: env.EVERART_S3_ACCESS_KEY_ID,
+        secretAccessKey: env.EVERART_S3_SECRET_ACCESS_KEY,
+        publicUrl: env.EVERART_S3_PUBLIC_URL,
+      });
+    }
+    default:
+      throw new Error(`Unknown EVERART_STORAGE backend: ${type}. Supported backends are: local, s3`);
+  }
+}
@@ -0,0 +1,91 @@
+import { ServerConfig, StyleConfig } from "./config.js";
+import { findModel, GenerationSettings, MODEL_FORMATS, ModelRegistry, validateGenerationSettings } from "./models.js";
+
+// Style names are passed as tool arguments and recorded in the catalog
+const STYLE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// A reusable look for generations: prompt fragments, pinned model and format, and default parameters
+export interface StylePreset {
+  name: string;
+  description?: string;
+  promptPrefix?: string;
+  promptSuffix?: string;
+  // Model ID, resolved when the config is loaded
+  model?: string;
+  format?: string;
+  settings: GenerationSettings;
+}
+
+function createStylePreset(name: string, options: StyleConfig, models: ModelRegistry): StylePreset {
+  for (const field of ["description", "promptPrefix", "promptSuffix", "negativePrompt", "model", "format"] as const) {
+    if (options[field] !== undefined && typeof options[field] !== "string") {
+      throw new Error(`Style '${name}' ${field} must be a string`);
+    }
+  }
+
+  let model: string | undefined;
+  if (options.model !== undefined) {
+    const definition = findModel(models, options.model);
+    if (!definition) {
+      throw new Error(`Style '${name}' uses unknown model '${options.model}'. Available models: ${[...models.models.keys()].join(", ")}`);
+    }
+    model = definition.id;
+  }
+  const format = options.format?.toLowerCase();
+  if (format !== undefined && !MODEL_FORMATS.includes(format)) {
+    throw new Error(`Style '${name}' format must be one of: ${MODEL_FORMATS.join(", ")}`);
+  }
+
+  const settings: GenerationSettings = {
+    negativePrompt: options.negativePrompt,
+    seed: options.seed,
+    guidance: options.guidance,
+    steps: options.steps,
+  };
+  try {
+    validateGenerationSettings(settings);
+  } catch (error) {
+    throw new Error(`Style '${name}': ${(error as Error).message}`);
+  }
+
+  return {
+    name,
+    description: options.description,
+    promptPrefix: options.promptPrefix?.trim() || undefined,
+    promptSuffix: options.promptSuffix?.trim() || undefined,
+    model,
+    format,
+    settings,
+  };
+}
+
+// Build the style presets defined in the config file
+export function createStylePresets(config: ServerConfig, models: ModelRegistry): Map<string, StylePreset> {
+  const styles = new Map<string, StylePreset>();
+  for (const [name, options] of Object.entries(config.styles || {})) {
+    if (!STYLE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid style name '${name}'. Use letters, digits, '-' and '_'.`);
+    }
+    if (!options || typeof options !== "object") {
+      throw new Error(`Style '${name}' must be an object`);
+    }
+    styles.set(name, createStylePreset(name, options, models));
+  }
+  return styles;
+}
+
+// The prompt sent to the model: the style's prefix, the prompt and the style's suffix
+export function applyStylePrompt(style: StylePreset, prompt: string): string {
+  return [style.promptPrefix, prompt.trim(), style.promptSuffix].filter(Boolean).join(", ");
+}
+
+// Combine a style's parameters with those of a call. Values from the call win; negative prompts are joined.
+export function mergeStyleSettings(style: StylePreset | undefined, settings: GenerationSettings): GenerationSettings {
+  const negativePrompt = [style?.settings.negativePrompt, settings.negativePrompt].filter(Boolean).join(", ");
+  return {
+    negativePrompt: negativePrompt || undefined,
+    seed: settings.seed ?? style?.settings.seed,
+    guidance: settings.guidance ?? style?.settings.guidance,
+    steps: settings.steps ?? style?.settings.steps,
+  };
+}
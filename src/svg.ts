@@ -0,0 +1,159 @@
+import { optimize, Config as SvgoConfig } from "svgo";
+import { ServerConfig } from "./config.js";
+import { slugify } from "./filenames.js";
+
+// Named svgo configurations for generated and existing SVGs
+export const SVG_PROFILES = ["none", "safe", "aggressive", "icon"] as const;
+
+export type SvgProfile = typeof SVG_PROFILES[number];
+
+export interface SvgOptimizeOptions {
+  profile?: SvgProfile;
+  // Turn individual svgo plugins on (true) or off (false) on top of the profile
+  overrides?: Record<string, boolean>;
+  // Prefix for ids and class names, so several inline SVGs on one page don't collide
+  idPrefix?: string;
+}
+
+export interface SvgOptimizeResult {
+  data: string;
+  profile: SvgProfile;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+// What an optimization did, without the markup
+export type SvgOptimizeReport = Omit<SvgOptimizeResult, "data">;
+
+// Plugins run by svgo's preset-default, which overrides can switch off
+const PRESET_DEFAULT_PLUGINS = [
+  "removeDoctype", "removeXMLProcInst", "removeComments", "removeMetadata", "removeEditorsNSData", "cleanupAttrs",
+  "mergeStyles", "inlineStyles", "minifyStyles", "cleanupIds", "removeUselessDefs", "cleanupNumericValues",
+  "convertColors", "removeUnknownsAndDefaults", "removeNonInheritableGroupAttrs", "removeUselessStrokeAndFill",
+  "removeViewBox", "cleanupEnableBackground", "removeHiddenElems", "removeEmptyText", "convertShapeToPath",
+  "convertEllipseToCircle", "moveElemsAttrsToGroup", "moveGroupAttrsToElems", "collapseGroups", "convertPathData",
+  "convertTransform", "removeEmptyAttrs", "removeEmptyContainers", "mergePaths", "removeUnusedNS", "sortAttrs",
+  "sortDefsChildren", "removeTitle", "removeDesc",
+];
+
+// Plugins outside preset-default that need no parameters, which overrides can switch on
+const OPTIONAL_PLUGINS = [
+  "removeDimensions", "convertStyleToAttrs", "removeScriptElement", "removeStyleElement", "removeRasterImages",
+  "removeOffCanvasPaths", "reusePaths", "removeXlink", "convertOneStopGradients", "removeXMLNS",
+];
+
+interface ProfileSettings {
+  // preset-default plugins switched off
+  disabled: string[];
+  extras: string[];
+  floatPrecision?: number;
+  // Prefix ids with the file name when no prefix is given
+  prefixIds?: boolean;
+}
+
+// Every profile keeps the viewBox, which responsive scaling depends on
+const PROFILES: Record<Exclude<SvgProfile, "none">, ProfileSettings> = {
+  // Lossless clean-up that keeps ids, titles and descriptions other code or assistive technology may rely on
+  safe: {
+    disabled: ["removeViewBox", "cleanupIds", "removeTitle", "removeDesc"],
+    extras: [],
+  },
+  // Smallest files: rounded coordinates, no fixed dimensions, styles as attributes
+  aggressive: {
+    disabled: ["removeViewBox"],
+    extras: ["removeDimensions", "convertStyleToAttrs", "removeScriptElement", "removeOffCanvasPaths", "reusePaths"],
+    floatPrecision: 2,
+  },
+  // Icons inlined into pages: scalable, no embedded styles, scripts or bitmaps, and collision-free ids
+  icon: {
+    disabled: ["removeViewBox"],
+    extras: ["removeDimensions", "convertStyleToAttrs", "removeScriptElement", "removeStyleElement", "removeRasterImages"],
+    floatPrecision: 2,
+    prefixIds: true,
+  },
+};
+
+// Check a profile name and plugin overrides before any work is done
+export function validateSvgOptions(options: SvgOptimizeOptions): void {
+  if (options.profile !== undefined && !SVG_PROFILES.includes(options.profile)) {
+    throw new Error(`Invalid SVG profile: ${options.profile}. Supported profiles are: ${SVG_PROFILES.join(", ")}`);
+  }
+  for (const [name, enabled] of Object.entries(options.overrides || {})) {
+    if (typeof enabled !== "boolean") {
+      throw new Error(`SVG plugin override for ${name} must be true or false`);
+    }
+    if (!PRESET_DEFAULT_PLUGINS.includes(name) && !OPTIONAL_PLUGINS.includes(name)) {
+      throw new Error(`Unknown svgo plugin: ${name}. Supported plugins are: ${[...PRESET_DEFAULT_PLUGINS, ...OPTIONAL_PLUGINS].join(", ")}`);
+    }
+  }
+  if (options.idPrefix !== undefined && !/^[a-z_][\w-]*$/i.test(options.idPrefix)) {
+    throw new Error(`Invalid id prefix: ${options.idPrefix}. Use letters, digits, '-' and '_', starting with a letter.`);
+  }
+}
+
+// Build the svgo plugin list for a profile with per-call overrides applied
+function svgoPlugins(settings: ProfileSettings, options: SvgOptimizeOptions, defaultPrefix: string): SvgoConfig["plugins"] {
+  const disabled = new Set(settings.disabled);
+  const extras = new Set(settings.extras);
+  for (const [name, enabled] of Object.entries(options.overrides || {})) {
+    if (PRESET_DEFAULT_PLUGINS.includes(name)) {
+      if (enabled) disabled.delete(name); else disabled.add(name);
+    } else {
+      if (enabled) extras.add(name); else extras.delete(name);
+    }
+  }
+
+  const prefix = options.idPrefix || (settings.prefixIds ? defaultPrefix : undefined);
+  return [
+    {
+      name: "preset-default",
+      params: {
+        floatPrecision: settings.floatPrecision,
+        overrides: Object.fromEntries([...disabled].map(name => [name, false])),
+      },
+    },
+    ...[...extras],
+    ...(prefix ? [{ name: "prefixIds", params: { prefix, delim: "-" } }] : []),
+  ] as SvgoConfig["plugins"];
+}
+
+// Optimize SVG markup with a profile. defaultPrefix (usually the file name) is used by profiles that prefix ids.
+export function optimizeSvg(svg: string, options: SvgOptimizeOptions = {}, defaultPrefix: string = "svg"): SvgOptimizeResult {
+  const profile = options.profile || "safe";
+  const bytesBefore = Buffer.byteLength(svg);
+  if (profile === "none" && !options.idPrefix && Object.keys(options.overrides || {}).length === 0) {
+    return { data: svg, profile, bytesBefore, bytesAfter: bytesBefore };
+  }
+
+  // "none" with an id prefix or overrides only runs those
+  const settings: ProfileSettings = profile === "none"
+    ? { disabled: PRESET_DEFAULT_PLUGINS, extras: [] }
+    : PROFILES[profile];
+  const { data } = optimize(svg, {
+    multipass: profile !== "none",
+    plugins: svgoPlugins(settings, options, defaultPrefix),
+  });
+  return { data, profile, bytesBefore, bytesAfter: Buffer.byteLength(data) };
+}
+
+// Id prefix derived from a prompt or file name, e.g. "mountain-logo"
+export function defaultIdPrefix(text: string): string {
+  const slug = slugify(text, 20);
+  return /^\p{L}/u.test(slug) ? slug : `svg-${slug}`;
+}
+
+// Default profile from EVERART_SVG_PROFILE or the config file (default: safe)
+export function resolveSvgProfile(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): SvgProfile {
+  const profile = (env.EVERART_SVG_PROFILE || config.svgProfile || "safe").toLowerCase();
+  if (!SVG_PROFILES.includes(profile as SvgProfile)) {
+    throw new Error(`Invalid SVG profile: ${profile}. Supported profiles are: ${SVG_PROFILES.join(", ")}`);
+  }
+  return profile as SvgProfile;
+}
+
+// "12.3 KB → 8.1 KB (-34%)"
+export function formatSizeChange(result: SvgOptimizeReport): string {
+  const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+  const change = result.bytesBefore > 0 ? Math.round((result.bytesAfter / result.bytesBefore - 1) * 100) : 0;
+  return `${kb(result.bytesBefore)} → ${kb(result.bytesAfter)} (${change > 0 ? "+" : ""}${change}%)`;
+}
@@ -0,0 +1,15 @@
+// Minimal typings for the parts of imagetracerjs this server uses
+declare module "imagetracerjs" {
+  interface TracerImageData {
+    width: number;
+    height: number;
+    // RGBA pixels, row by row
+    data: Uint8ClampedArray;
+  }
+
+  const ImageTracer: {
+    imagedataToSVG(imageData: TracerImageData, options?: Record<string, unknown>): string;
+  };
+
+  export default ImageTracer;
+}
@@ -0,0 +1,80 @@
+import sharp from "sharp";
+import ImageTracer from "imagetracerjs";
+
+// How closely traced paths follow the source; higher detail keeps smaller shapes and is slower
+export const TRACE_DETAIL_LEVELS = ["low", "medium", "high"] as const;
+
+export type TraceDetail = typeof TRACE_DETAIL_LEVELS[number];
+
+export interface TraceOptions {
+  // Number of colours the image is posterized to before tracing
+  colors?: number;
+  detail?: TraceDetail;
+}
+
+export const DEFAULT_TRACE_COLORS = 8;
+export const MIN_TRACE_COLORS = 2;
+export const MAX_TRACE_COLORS = 64;
+
+interface TraceSettings {
+  // Images are traced at most this many pixels wide or high; coordinates are scaled back to the source size
+  maxDimension: number;
+  // Error thresholds for straight lines and curves, in pixels
+  ltres: number;
+  qtres: number;
+  // Shapes with fewer points than this are dropped
+  pathomit: number;
+  // Blur before posterizing, which merges noise into flat areas
+  blurradius: number;
+}
+
+const TRACE_SETTINGS: Record<TraceDetail, TraceSettings> = {
+  low: { maxDimension: 384, ltres: 2, qtres: 2, pathomit: 16, blurradius: 2 },
+  medium: { maxDimension: 640, ltres: 1, qtres: 1, pathomit: 8, blurradius: 1 },
+  high: { maxDimension: 1024, ltres: 0.5, qtres: 0.5, pathomit: 2, blurradius: 0 },
+};
+
+// Check trace options before anything is generated
+export function validateTraceOptions(options: TraceOptions): void {
+  if (options.colors !== undefined &&
+      (!Number.isInteger(options.colors) || options.colors < MIN_TRACE_COLORS || options.colors > MAX_TRACE_COLORS)) {
+    throw new Error(`Colour count must be an integer between ${MIN_TRACE_COLORS} and ${MAX_TRACE_COLORS}`);
+  }
+  if (options.detail !== undefined && !TRACE_DETAIL_LEVELS.includes(options.detail)) {
+    throw new Error(`Invalid detail level: ${options.detail}. Supported levels are: ${TRACE_DETAIL_LEVELS.join(", ")}`);
+  }
+}
+
+// Trace a raster image into a posterized, multi-colour SVG with one path layer per colour
+export async function traceToSvg(content: Buffer, options: TraceOptions = {}): Promise<string> {
+  const settings = TRACE_SETTINGS[options.detail || "medium"];
+  const { width: sourceWidth } = await sharp(content).metadata();
+  const { data, info } = await sharp(content)
+    .ensureAlpha()
+    .resize({ width: settings.maxDimension, height: settings.maxDimension, fit: "inside", withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const svg = ImageTracer.imagedataToSVG(
+    { width: info.width, height: info.height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) },
+    {
+      numberofcolors: options.colors ?? DEFAULT_TRACE_COLORS,
+      // Deterministic palette sampling, so the same image always traces the same way
+      colorsampling: 2,
+      colorquantcycles: 3,
+      ltres: settings.ltres,
+      qtres: settings.qtres,
+      pathomit: settings.pathomit,
+      blurradius: settings.blurradius,
+      blurdelta: 20,
+      // Thin strokes in each shape's colour hide hairline gaps between adjacent layers
+      strokewidth: 1,
+      scale: sourceWidth ? sourceWidth / info.width : 1,
+      roundcoords: 1,
+      viewbox: true,
+      desc: false,
+    },
+  );
+  // The tracer credits itself in a desc attribute, which isn't valid on <svg>
+  return svg.replace(/^<svg([^>]*?) desc="[^"]*"/, "<svg$1");
+}
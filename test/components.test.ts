@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildSvgComponent } from "../src/components.js";
+
+// An icon whose paint refers to its own gradient and clip path
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">` +
+  `<defs><linearGradient id="shine"><stop offset="0" stop-color="#f00"/><stop offset="1" stop-color="#00f"/></linearGradient>` +
+  `<clipPath id="round"><circle cx="12" cy="12" r="10"/></clipPath></defs>` +
+  `<rect width="24" height="24" fill="url(#shine)" clip-path="url(#round)"/></svg>`;
+
+// Values of the id attributes in component code
+function ids(code: string): string[] {
+  return [...code.matchAll(/\bid="([^"]+)"/g)].map(match => match[1]);
+}
+
+describe("SVG components", () => {
+  it("keeps ids unique across components rendered on the same page", () => {
+    for (const framework of ["react", "vue"] as const) {
+      const first = buildSvgComponent(ICON, "mountain-logo.svg", framework);
+      const second = buildSvgComponent(ICON, "river-logo.svg", framework);
+
+      const firstIds = ids(first.code);
+      const secondIds = ids(second.code);
+      assert.equal(firstIds.length, 2);
+      assert.ok(firstIds.every(id => id.startsWith("MountainLogo-")), firstIds.join(", "));
+      assert.ok(secondIds.every(id => id.startsWith("RiverLogo-")), secondIds.join(", "));
+      assert.deepEqual(firstIds.filter(id => secondIds.includes(id)), []);
+    }
+  });
+
+  it("points references at the prefixed ids", () => {
+    const { code } = buildSvgComponent(ICON, "mountain-logo.svg", "react");
+    for (const id of ids(code)) {
+      assert.ok(code.includes(`url(#${id})`), `reference to ${id}`);
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { integerFromEnv } from "../src/config.js";
+
+describe("integerFromEnv", () => {
+  it("uses the default when the variable is unset or empty", () => {
+    assert.equal(integerFromEnv("EVERART_INLINE_IMAGE_MAX_BYTES", 750000, 0, {}), 750000);
+    assert.equal(integerFromEnv("EVERART_INLINE_IMAGE_MAX_BYTES", 750000, 0, { EVERART_INLINE_IMAGE_MAX_BYTES: "" }), 750000);
+  });
+
+  it("accepts whole numbers from the minimum up", () => {
+    assert.equal(integerFromEnv("EVERART_INLINE_IMAGE_MAX_BYTES", 750000, 0, { EVERART_INLINE_IMAGE_MAX_BYTES: "0" }), 0);
+    assert.equal(integerFromEnv("EVERART_INLINE_IMAGE_MAX_BYTES", 750000, 0, { EVERART_INLINE_IMAGE_MAX_BYTES: "200000" }), 200000);
+  });
+
+  it("rejects values that aren't whole numbers of the minimum or more", () => {
+    for (const value of ["abc", "1.5", "-1", "10kb"]) {
+      assert.throws(
+        () => integerFromEnv("EVERART_INLINE_IMAGE_MAX_BYTES", 750000, 0, { EVERART_INLINE_IMAGE_MAX_BYTES: value }),
+        /EVERART_INLINE_IMAGE_MAX_BYTES must be a whole number of 0 or more/,
+      );
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { resolveWebProjectLayout } from "../src/frameworks.js";
+
+describe("web framework detection", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "everart-frameworks-"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // Create a project directory with the given files and directories (names ending in /)
+  async function project(name: string, entries: string[]): Promise<string> {
+    const root = path.join(dir, name);
+    await fs.mkdir(root, { recursive: true });
+    for (const entry of entries) {
+      if (entry.endsWith("/")) await fs.mkdir(path.join(root, entry), { recursive: true });
+      else await fs.writeFile(path.join(root, entry), "");
+    }
+    return root;
+  }
+
+  it("detects Hugo from hugo.toml", async () => {
+    const layout = await resolveWebProjectLayout(await project("hugo-config", ["hugo.toml"]));
+    assert.equal(layout.framework.id, "hugo");
+  });
+
+  it("detects Hugo from config.toml next to a content directory", async () => {
+    const layout = await resolveWebProjectLayout(await project("hugo-legacy", ["config.toml", "content/"]));
+    assert.equal(layout.framework.id, "hugo");
+    assert.equal(layout.detectedFrom, "config file config.toml");
+  });
+
+  it("does not treat a lone config.toml as Hugo", async () => {
+    const layout = await resolveWebProjectLayout(await project("tool-config", ["config.toml", "public/"]));
+    assert.equal(layout.framework.id, "html");
+  });
+});
@@ -0,0 +1,263 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import sharp from "sharp";
+import { useMockEnvironment } from "./helpers.js";
+import {
+  classifyGenerationError,
+  createGeneration,
+  downloadImage,
+  EverArtErrorType,
+  executeGeneration,
+  initialize,
+  saveImage,
+  shutdown,
+  validateGenerationArgs,
+  waitForImageUrl,
+} from "../src/index.js";
+import { readCatalog } from "../src/catalog.js";
+
+// Create a generation on the mock backend and wait for its image URL
+async function generatedImageUrl(prompt: string, model: string = "5000", size = { width: 96, height: 64 }): Promise<string> {
+  const [generation] = await createGeneration(model, prompt, 1, { size });
+  return waitForImageUrl(generation.id);
+}
+
+// The rejection of a promise, for checking how it is categorised
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  assert.fail("Expected the promise to reject");
+}
+
+describe("generation against the mock backend", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await useMockEnvironment();
+    // SD3.5 with the experimental parameters enabled
+    await fs.writeFile(path.join(dir, "config.json"), JSON.stringify({ models: { "6000": { parameters: ["seed", "steps"] } } }));
+    await initialize();
+  });
+
+  after(async () => {
+    await shutdown();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("saveImage", () => {
+    it("stores a PNG in the library and catalogs it", async () => {
+      const url = await generatedImageUrl("a red barn");
+      const saved = await saveImage(url, "a red barn", "5000", "png");
+
+      assert.equal(path.dirname(saved.filepath), path.join(dir, "images"));
+      assert.match(path.basename(saved.filepath), /_5000_a-red-barn\.png$/);
+      const metadata = await sharp(saved.filepath).metadata();
+      assert.equal(metadata.format, "png");
+      assert.equal(metadata.width, 96);
+
+      const [record] = (await readCatalog(path.join(dir, "images"))).filter(r => r.path === saved.filepath);
+      assert.equal(record.prompt, "a red barn");
+      assert.equal(record.model, "5000");
+      assert.equal(record.width, 96);
+      assert.equal(record.height, 64);
+      assert.equal(record.sourceUrl, url);
+    });
+
+    it("converts and resizes to an output path", async () => {
+      const url = await generatedImageUrl("a blue boat");
+      const outputPath = path.join(dir, "site", "boat.jpg");
+      const saved = await saveImage(url, "a blue boat", "5000", "jpg", { outputPath, resize: { width: 40, height: 40 } });
+
+      assert.equal(saved.filepath, outputPath);
+      const metadata = await sharp(outputPath).metadata();
+      assert.equal(metadata.format, "jpeg");
+      assert.equal(metadata.width, 40);
+      assert.equal(metadata.height, 40);
+    });
+
+    it("optimizes SVG output from vector models", async () => {
+      const url = await generatedImageUrl("a green leaf", "8000");
+      const saved = await saveImage(url, "a green leaf", "8000", "svg", { outputPath: path.join(dir, "leaf.svg") });
+
+      const svg = await fs.readFile(saved.filepath, "utf-8");
+      assert.match(svg, /^<svg[^>]* viewBox="0 0 96 64"/);
+      assert.equal(saved.svgOptimization?.profile, "safe");
+    });
+
+    it("saves into a Vite source directory with an import snippet", async () => {
+      const url = await generatedImageUrl("a hero banner");
+      const saved = await saveImage(url, "a hero banner", "5000", "png", {
+        webProjectPath: path.join(dir, "vite-site"),
+        projectType: "vite",
+        assetPath: "src/assets",
+      });
+
+      assert.equal(path.dirname(saved.filepath), path.join(dir, "vite-site", "src", "assets"));
+      assert.equal(saved.web?.url, undefined);
+      assert.equal(saved.web?.importPath, `./assets/${path.basename(saved.filepath)}`);
+      assert.match(saved.web!.snippets[0].code, /^import imageUrl from "\.\/assets\//);
+    });
+
+    it("fails instead of falling back when the web asset directory can't be created", async () => {
+      const url = await generatedImageUrl("a blocked banner");
+      const project = path.join(dir, "blocked-site");
+      await fs.mkdir(project, { recursive: true });
+      // A file where the public directory should be
+      await fs.writeFile(path.join(project, "public"), "");
+
+      await assert.rejects(
+        saveImage(url, "a blocked banner", "5000", "png", { webProjectPath: project, projectType: "vite" }),
+        /Failed to prepare web project directory/,
+      );
+    });
+
+    it("refuses to overwrite with the fail policy", async () => {
+      const url = await generatedImageUrl("a yellow kite");
+      const outputPath = path.join(dir, "kite.png");
+      await saveImage(url, "a yellow kite", "5000", "png", { outputPath });
+
+      const error = await rejection(saveImage(url, "a yellow kite", "5000", "png", { outputPath, overwrite: "fail" }));
+      assert.equal(classifyGenerationError(error).type, EverArtErrorType.STORAGE_ERROR);
+    });
+
+    it("rejects output paths outside the writable roots", async () => {
+      const url = await generatedImageUrl("a grey rock");
+      const error = await rejection(saveImage(url, "a grey rock", "5000", "png", { outputPath: "/etc/rock.png" }));
+      assert.equal(classifyGenerationError(error).type, EverArtErrorType.VALIDATION_ERROR);
+    });
+  });
+
+  describe("retries", () => {
+    it("creates a generation after rate-limited attempts", async () => {
+      const generations = await createGeneration("5000", "busy [mock:429x2]", 1);
+      assert.equal(generations.length, 1);
+    });
+
+    it("gives up creating a generation after three rate-limited attempts", async () => {
+      const error = await rejection(createGeneration("5000", "very busy [mock:429x3]", 1));
+      assert.deepEqual(
+        { ...classifyGenerationError(error) },
+        { type: EverArtErrorType.API_ERROR, message: "EverArt API rate limit reached. Please try again later." },
+      );
+    });
+
+    it("downloads after a rate-limited download, honouring retry-after", async () => {
+      const url = await generatedImageUrl("busy download [mock:download-429]");
+      const started = Date.now();
+      const content = await downloadImage(url);
+      assert.ok(Date.now() - started >= 1000, "waited for retry-after");
+      assert.equal((await sharp(content).metadata()).format, "png");
+    });
+
+    it("downloads after a server error", async () => {
+      const url = await generatedImageUrl("flaky download [mock:download-500]");
+      const content = await downloadImage(url);
+      assert.equal((await sharp(content).metadata()).format, "png");
+    });
+
+    it("gives up downloading after repeated server errors", async () => {
+      const url = await generatedImageUrl("broken download [mock:download-500x3]");
+      const error = await rejection(downloadImage(url));
+      assert.equal(classifyGenerationError(error).type, EverArtErrorType.NETWORK_ERROR);
+    });
+  });
+
+  describe("error categorisation", () => {
+    it("reports rejected credentials as an authentication error", async () => {
+      const error = await rejection(createGeneration("5000", "secret [mock:401]", 1));
+      assert.equal(classifyGenerationError(error).type, EverArtErrorType.AUTHENTICATION_ERROR);
+    });
+
+    it("fails when polling runs out", async () => {
+      const [generation] = await createGeneration("5000", "stuck [mock:timeout]", 1);
+      await assert.rejects(waitForImageUrl(generation.id), /did not complete/);
+    });
+
+    it("fails when a generation finishes without an image", async () => {
+      const [generation] = await createGeneration("5000", "broken [mock:fail]", 1);
+      await assert.rejects(waitForImageUrl(generation.id), /No image URL/);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("stops polling when the signal is aborted", async () => {
+      const [generation] = await createGeneration("5000", "endless [mock:timeout]", 1);
+      const controller = new AbortController();
+      const reason = new Error("canceled by the client");
+      setTimeout(() => controller.abort(reason), 50);
+      const started = Date.now();
+      await assert.rejects(waitForImageUrl(generation.id, controller.signal), reason);
+      assert.ok(Date.now() - started < 500);
+    });
+
+    it("stops a generation before saving when the signal is aborted", async () => {
+      const { params } = validateGenerationArgs({ prompt: "a canceled cat", model: "5000", output_path: path.join(dir, "canceled", "cat.png") });
+      const controller = new AbortController();
+      const reason = new Error("canceled by the client");
+      setTimeout(() => controller.abort(reason), 20);
+      await assert.rejects(executeGeneration(params!, { signal: controller.signal }), reason);
+      await assert.rejects(fs.access(path.join(dir, "canceled", "cat.png")));
+    });
+
+    it("fails before downloading with an aborted signal", async () => {
+      const url = await generatedImageUrl("a skipped download");
+      const controller = new AbortController();
+      controller.abort(new Error("canceled by the client"));
+      await assert.rejects(downloadImage(url, controller.signal), /canceled by the client/);
+    });
+  });
+
+  describe("validateGenerationArgs", () => {
+    it("rejects fractional image counts", () => {
+      const { error } = validateGenerationArgs({ prompt: "a few owls", model: "5000", image_count: 2.5 });
+      assert.equal(error?.type, EverArtErrorType.VALIDATION_ERROR);
+      assert.match(error!.message, /whole number between 1 and 10/);
+    });
+
+    it("rejects experimental parameters for models that don't enable them", () => {
+      const { error } = validateGenerationArgs({ prompt: "a seeded fox", model: "5000", seed: 7 });
+      assert.equal(error?.type, EverArtErrorType.VALIDATION_ERROR);
+      assert.match(error!.message, /experimental.*Models that do: 6000:SD3\.5$/);
+    });
+  });
+
+  describe("executeGeneration", () => {
+    it("saves every image of a multi-image generation", async () => {
+      const { params, error } = validateGenerationArgs({
+        prompt: "a pair of owls",
+        model: "5000",
+        format: "webp",
+        image_count: 2,
+        output_path: path.join(dir, "owls", "owl.webp"),
+      });
+      assert.equal(error, undefined);
+
+      const result = await executeGeneration(params!);
+      assert.deepEqual(result.failures, []);
+      assert.deepEqual(
+        result.images.map(image => path.basename(image.filepath)).sort(),
+        ["owl-1.webp", "owl-2.webp"],
+      );
+    });
+
+    it("records a seed only when the API echoes it", async () => {
+      const { params } = validateGenerationArgs({
+        prompt: "a seeded heron",
+        model: "6000",
+        seed: 42,
+        steps: 30,
+        output_path: path.join(dir, "heron.png"),
+      });
+      const result = await executeGeneration(params!);
+
+      const [record] = (await readCatalog(path.join(dir, "images"))).filter(r => r.path === result.images[0].filepath);
+      assert.deepEqual(record.settings, { steps: 30 });
+      assert.equal(result.images[0].seed, undefined);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+// Point the server at the mock backend and a fresh temporary storage root. Call before initialize().
+export async function useMockEnvironment(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "everart-test-"));
+  for (const name of Object.keys(process.env)) {
+    if (name.startsWith("EVERART_")) delete process.env[name];
+  }
+  await fs.writeFile(path.join(dir, "config.json"), "{}");
+  Object.assign(process.env, {
+    EVERART_MOCK: "true",
+    EVERART_MOCK_DELAY_MS: "60",
+    EVERART_POLL_INTERVAL_MS: "10",
+    EVERART_POLL_TIMEOUT_MS: "2000",
+    EVERART_RETRY_BASE_DELAY_MS: "10",
+    EVERART_CONFIG: path.join(dir, "config.json"),
+    EVERART_STORAGE_DIR: path.join(dir, "images"),
+    EVERART_WRITABLE_ROOTS: dir,
+    EVERART_HEADLESS: "true",
+  });
+  return dir;
+}
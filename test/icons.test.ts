@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildIconSet, isCssColor } from "../src/icons.js";
+
+const ICON = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><circle cx="8" cy="8" r="6" fill="#e63946"/></svg>`);
+
+describe("icon sets", () => {
+  it("accepts CSS colours and rejects anything else", () => {
+    for (const color of ["#fff", "#1a73e8", "#1a73e880", "rgb(26, 115, 232)", "hsl(210, 80%, 50%)", "navy"]) {
+      assert.ok(isCssColor(color), color);
+    }
+    for (const color of ["notacolor", "#ggg", "", "red\"><script>", "url(x)"]) {
+      assert.ok(!isCssColor(color), color);
+    }
+  });
+
+  it("escapes the theme colour in the meta tag", async () => {
+    const { htmlTags } = await buildIconSet(ICON, { themeColor: `#fff" onload="x` }, true);
+    assert.match(htmlTags, /<meta name="theme-color" content="#fff&quot; onload=&quot;x">/);
+  });
+});
@@ -0,0 +1,48 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { createJob, getJob, JobStatus, loadJobs, startJob } from "../src/jobs.js";
+
+// Wait until the job reaches the status, or fail after a second
+async function waitForStatus(id: string, status: JobStatus): Promise<void> {
+  const started = Date.now();
+  while (getJob(id)?.status !== status) {
+    assert.ok(Date.now() - started < 1000, `job stayed ${getJob(id)?.status}`);
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe("background jobs", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "everart-jobs-"));
+    await loadJobs(dir);
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("runs jobs and records their result", async () => {
+    const job = createJob("test", {});
+    startJob(job, async () => "done");
+    await waitForStatus(job.id, "succeeded");
+    assert.equal(getJob(job.id)?.result, "done");
+  });
+
+  it("keeps running jobs when the job state can't be written", async () => {
+    // Writes of jobs.json fail once its directory is gone
+    await fs.rm(dir, { recursive: true, force: true });
+    const failing = createJob("test", {});
+    startJob(failing, async () => { throw new Error("boom"); });
+    await waitForStatus(failing.id, "failed");
+    assert.equal(getJob(failing.id)?.error, "boom");
+
+    const succeeding = createJob("test", {});
+    startJob(succeeding, async () => "done");
+    await waitForStatus(succeeding.id, "succeeded");
+  });
+});
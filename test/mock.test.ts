@@ -0,0 +1,100 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fetch from "node-fetch";
+import sharp from "sharp";
+import { createMockClient, MockBackend, startMockBackend } from "../src/mock.js";
+import { pollUntil } from "../src/retry.js";
+
+describe("mock backend", () => {
+  let backend: MockBackend;
+
+  before(async () => {
+    backend = await startMockBackend({ delayMs: 60 });
+  });
+
+  after(async () => {
+    await backend.close();
+  });
+
+  const poll = (generationId: string, timeoutMs: number = 2000) => pollUntil(async () => {
+    const generation = await backend.client.v1.generations.fetch(generationId);
+    return generation.status === "STARTING" || generation.status === "PROCESSING" ? undefined : generation;
+  }, { intervalMs: 10, timeoutMs, description: `Generation ${generationId}` });
+
+  const generate = async (model: string, prompt: string, options: Record<string, unknown> = {}) => {
+    const [generation] = await backend.client.v1.generations.create(model, prompt, "txt2img", { width: 64, height: 48, ...options });
+    return poll(generation.id);
+  };
+
+  it("runs generations through STARTING to SUCCEEDED", async () => {
+    const created = await backend.client.v1.generations.create("5000", "a lighthouse", "txt2img", { imageCount: 2 });
+    assert.equal(created.length, 2);
+    assert.equal(created[0].status, "STARTING");
+    assert.equal(created[0].image_url, null);
+
+    const completed = await poll(created[0].id);
+    assert.equal(completed.status, "SUCCEEDED");
+    assert.match(completed.image_url, /\/images\/.+\.png$/);
+  });
+
+  it("serves deterministic placeholder PNGs at the requested size", async () => {
+    const download = async (url: string) => Buffer.from(await (await fetch(url)).arrayBuffer());
+    const first = await download((await generate("5000", "a lighthouse")).image_url);
+    const second = await download((await generate("5000", "a lighthouse")).image_url);
+    const other = await download((await generate("5000", "a windmill")).image_url);
+
+    assert.deepEqual(first, second);
+    assert.notDeepEqual(first, other);
+    const metadata = await sharp(first).metadata();
+    assert.equal(metadata.format, "png");
+    assert.equal(metadata.width, 64);
+    assert.equal(metadata.height, 48);
+  });
+
+  it("serves SVG for vector models", async () => {
+    const generation = await generate("8000", "a <bold> logo");
+    const response = await fetch(generation.image_url);
+    assert.equal(response.headers.get("content-type"), "image/svg+xml");
+    const svg = await response.text();
+    assert.match(svg, /^<svg /);
+    assert.match(svg, /<title>a &lt;bold&gt; logo<\/title>/);
+  });
+
+  it("rejects an invalid API key with an SDK-style 401 error", async () => {
+    const client = createMockClient(backend.apiUrl, "invalid");
+    await assert.rejects(client.v1.generations.create("5000", "a lighthouse", "txt2img", {}), { name: "EverArtUnauthorizedError" });
+  });
+
+  it("rate limits the marked number of requests with retry-after", async () => {
+    const request = () => fetch(`${backend.apiUrl}/models/5000/generations`, {
+      method: "POST",
+      headers: { "Authorization": "Bearer mock", "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt: "busy [mock:429x2]", type: "txt2img" }),
+    });
+
+    for (let i = 0; i < 2; i++) {
+      const limited = await request();
+      assert.equal(limited.status, 429);
+      assert.equal(limited.headers.get("retry-after"), "1");
+    }
+    assert.equal((await request()).status, 200);
+  });
+
+  it("fails polling when a generation never completes", async () => {
+    const [generation] = await backend.client.v1.generations.create("5000", "slow [mock:timeout]", "txt2img", {});
+    await assert.rejects(poll(generation.id, 200), /did not complete within 1s/);
+  });
+
+  it("finishes marked generations as FAILED without an image", async () => {
+    const generation = await generate("5000", "broken [mock:fail]");
+    assert.equal(generation.status, "FAILED");
+    assert.equal(generation.image_url, null);
+  });
+
+  it("accepts uploads and serves them back", async () => {
+    const [upload] = await backend.client.v1.images.uploads([{ filename: "source.png", content_type: "image/png" }]);
+    const put = await fetch(upload.upload_url, { method: "PUT", headers: { "Content-Type": "image/png" }, body: Buffer.from("png data") });
+    assert.equal(put.status, 200);
+    assert.equal(await (await fetch(upload.file_url)).text(), "png data");
+  });
+});
@@ -0,0 +1,66 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { joinWithin, PathNotAllowedError, resolveAllowedPath } from "../src/paths.js";
+
+describe("path containment", () => {
+  let dir: string;
+  let root: string;
+  let outside: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "everart-paths-"));
+    root = path.join(dir, "root");
+    outside = path.join(dir, "outside");
+    await fs.mkdir(path.join(root, "site"), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.symlink(outside, path.join(root, "escape"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("resolveAllowedPath", () => {
+    it("accepts a path inside a root", async () => {
+      const target = path.join(root, "site", "logo.png");
+      assert.equal(await resolveAllowedPath(target, [root]), target);
+    });
+
+    it("accepts a path whose ancestors don't exist yet", async () => {
+      const target = path.join(root, "new", "nested", "logo.png");
+      assert.equal(await resolveAllowedPath(target, [root]), target);
+    });
+
+    it("rejects a path outside the roots", async () => {
+      await assert.rejects(resolveAllowedPath(path.join(outside, "logo.png"), [root]), PathNotAllowedError);
+      await assert.rejects(resolveAllowedPath(path.join(root, "..", "outside", "logo.png"), [root]), /outside the allowed directories/);
+    });
+
+    it("rejects a symlink inside a root that points outside it", async () => {
+      await assert.rejects(resolveAllowedPath(path.join(root, "escape", "logo.png"), [root]), /symbolic link/);
+      await assert.rejects(resolveAllowedPath(path.join(root, "escape", "new", "logo.png"), [root]), /symbolic link/);
+    });
+
+    it("accepts paths under a root that is itself reached through a symlink", async () => {
+      const linkedRoot = path.join(dir, "linked-root");
+      await fs.symlink(root, linkedRoot);
+      const target = path.join(linkedRoot, "site", "logo.png");
+      assert.equal(await resolveAllowedPath(target, [linkedRoot]), target);
+    });
+  });
+
+  describe("joinWithin", () => {
+    it("joins a relative path inside the base directory", () => {
+      assert.equal(joinWithin(root, "images/logo.png", "asset_path"), path.join(root, "images", "logo.png"));
+    });
+
+    it("rejects '..' escapes and absolute paths", () => {
+      assert.throws(() => joinWithin(root, "../outside", "asset_path"), /asset_path must stay inside/);
+      assert.throws(() => joinWithin(root, "images/../../outside", "asset_path"), PathNotAllowedError);
+      assert.throws(() => joinWithin(root, outside, "asset_path"), PathNotAllowedError);
+    });
+  });
+});
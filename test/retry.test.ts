@@ -0,0 +1,195 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  backoffDelay,
+  DEFAULT_RETRY_POLICY,
+  HttpStatusError,
+  isRetryableError,
+  parseRetryAfter,
+  pollUntil,
+  resolveRetryPolicy,
+  RetryPolicy,
+  withRetry,
+} from "../src/retry.js";
+
+const FAST_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 10,
+  maxDelayMs: 1000,
+  requestTimeoutMs: 1000,
+  deadlineMs: 5000,
+  pollIntervalMs: 10,
+  pollTimeoutMs: 1000,
+};
+
+// An operation failing with the given errors in turn, then returning "done"
+function failing(...errors: Error[]) {
+  const calls: number[] = [];
+  const operation = async () => {
+    calls.push(Date.now());
+    const error = errors[calls.length - 1];
+    if (error) throw error;
+    return "done";
+  };
+  return { operation, calls };
+}
+
+describe("resolveRetryPolicy", () => {
+  it("uses the defaults without settings", () => {
+    assert.deepEqual(resolveRetryPolicy({}, {}), DEFAULT_RETRY_POLICY);
+  });
+
+  it("prefers environment variables over the config file", () => {
+    const policy = resolveRetryPolicy(
+      { retry: { attempts: 5, pollIntervalMs: 500 } },
+      { EVERART_RETRY_ATTEMPTS: "2", EVERART_POLL_TIMEOUT_MS: "600000" },
+    );
+    assert.equal(policy.attempts, 2);
+    assert.equal(policy.pollIntervalMs, 500);
+    assert.equal(policy.pollTimeoutMs, 600000);
+  });
+
+  it("rejects invalid values, naming where they came from", () => {
+    assert.throws(() => resolveRetryPolicy({}, { EVERART_RETRY_ATTEMPTS: "0" }), /EVERART_RETRY_ATTEMPTS must be a whole number of 1 or more/);
+    assert.throws(() => resolveRetryPolicy({ retry: { baseDelayMs: -1 } }, {}), /retry\.baseDelayMs must be a whole number of 0 or more/);
+  });
+});
+
+describe("retry helpers", () => {
+  it("parses retry-after in seconds or as a date", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    assert.equal(parseRetryAfter("3", now), 3000);
+    assert.equal(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT", now), 5000);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+  });
+
+  it("retries rate limits, server errors and network errors but not rejected requests", () => {
+    assert.ok(isRetryableError(new HttpStatusError("rate limited", 429)));
+    assert.ok(isRetryableError(new HttpStatusError("server error", 503)));
+    assert.ok(isRetryableError(new Error("socket hang up")));
+    assert.ok(!isRetryableError(new HttpStatusError("unauthorized", 401)));
+    assert.ok(!isRetryableError(new HttpStatusError("not found", 404)));
+    assert.ok(!isRetryableError(Object.assign(new Error("Failed to create generations"), { name: "EverArtUnauthorizedError" })));
+  });
+
+  it("doubles the backoff up to the maximum, jittering its upper half", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+    assert.equal(backoffDelay(policy, 1, () => 0), 500);
+    assert.equal(backoffDelay(policy, 1, () => 1), 1000);
+    assert.equal(backoffDelay(policy, 3, () => 1), 4000);
+    assert.equal(backoffDelay(policy, 10, () => 1), 5000);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries until an attempt succeeds", async () => {
+    const { operation, calls } = failing(new HttpStatusError("busy", 503), new Error("socket hang up"));
+    assert.equal(await withRetry(operation, FAST_POLICY), "done");
+    assert.equal(calls.length, 3);
+  });
+
+  it("throws the last error once the attempts run out", async () => {
+    const { operation, calls } = failing(new HttpStatusError("busy 1", 503), new HttpStatusError("busy 2", 503), new HttpStatusError("busy 3", 503));
+    await assert.rejects(withRetry(operation, FAST_POLICY), /busy 3/);
+    assert.equal(calls.length, 3);
+  });
+
+  it("retries SDK errors by name, as they carry no status", async () => {
+    const sdkError = (name: string) => Object.assign(new Error(`Failed to create generations: {"message":"${name}"}`), { name });
+    const { operation, calls } = failing(sdkError("EverArtUnknownError"), sdkError("EverArtUnknownError"));
+    assert.equal(await withRetry(operation, FAST_POLICY), "done");
+    assert.equal(calls.length, 3);
+
+    for (const name of ["EverArtInvalidRequestError", "EverArtContentModerationError", "EverArtRecordNotFoundError"]) {
+      const rejected = failing(sdkError(name));
+      await assert.rejects(withRetry(rejected.operation, FAST_POLICY), { name });
+      assert.equal(rejected.calls.length, 1);
+    }
+  });
+
+  it("does not retry rejected credentials", async () => {
+    const { operation, calls } = failing(new HttpStatusError("EverArt API authentication failed (401)", 401));
+    await assert.rejects(withRetry(operation, FAST_POLICY), /authentication failed/);
+    assert.equal(calls.length, 1);
+  });
+
+  it("waits as long as retry-after asks", async () => {
+    const { operation, calls } = failing(new HttpStatusError("rate limited", 429, 200));
+    await withRetry(operation, FAST_POLICY);
+    assert.ok(calls[1] - calls[0] >= 190, `waited ${calls[1] - calls[0]}ms`);
+  });
+
+  it("gives up instead of waiting past the deadline", async () => {
+    const { operation, calls } = failing(new HttpStatusError("rate limited", 429, 60000));
+    const started = Date.now();
+    await assert.rejects(withRetry(operation, { ...FAST_POLICY, maxDelayMs: 60000 }), /rate limited/);
+    assert.equal(calls.length, 1);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("times out attempts that hang and retries them", async () => {
+    let attempts = 0;
+    const result = await withRetry(async signal => {
+      if (++attempts === 1) {
+        await new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+      }
+      return "done";
+    }, { ...FAST_POLICY, requestTimeoutMs: 50 });
+    assert.equal(result, "done");
+    assert.equal(attempts, 2);
+  });
+
+  it("reports a timeout when every attempt hangs", async () => {
+    await assert.rejects(
+      withRetry(() => new Promise(() => {}), { ...FAST_POLICY, attempts: 2, requestTimeoutMs: 50 }, { description: "Image download" }),
+      /Image download timed out after 1s/,
+    );
+  });
+
+  it("stops a hanging attempt when canceled", async () => {
+    const controller = new AbortController();
+    const reason = new Error("canceled by the client");
+    setTimeout(() => controller.abort(reason), 50);
+    const started = Date.now();
+    await assert.rejects(withRetry(() => new Promise(() => {}), FAST_POLICY, { signal: controller.signal }), reason);
+    assert.ok(Date.now() - started < 500);
+  });
+
+  it("stops waiting between attempts when canceled", async () => {
+    const controller = new AbortController();
+    const { operation, calls } = failing(new HttpStatusError("rate limited", 429, 5000));
+    setTimeout(() => controller.abort(new Error("canceled")), 50);
+    await assert.rejects(withRetry(operation, { ...FAST_POLICY, maxDelayMs: 5000, deadlineMs: 60000 }, { signal: controller.signal }), /canceled/);
+    assert.equal(calls.length, 1);
+  });
+});
+
+describe("pollUntil", () => {
+  it("polls until the check returns a value", async () => {
+    let checks = 0;
+    const result = await pollUntil(async () => ++checks === 3 ? "finished" : undefined, { intervalMs: 10, timeoutMs: 1000, description: "Job" });
+    assert.equal(result, "finished");
+    assert.equal(checks, 3);
+  });
+
+  it("fails once the timeout passes", async () => {
+    await assert.rejects(
+      pollUntil(async () => undefined, { intervalMs: 10, timeoutMs: 100, description: "Generation 123" }),
+      /Generation 123 did not complete within 1s/,
+    );
+  });
+
+  it("stops polling when canceled", async () => {
+    const controller = new AbortController();
+    let checks = 0;
+    setTimeout(() => controller.abort(new Error("canceled")), 50);
+    await assert.rejects(
+      pollUntil(async () => { checks++; return undefined; }, { intervalMs: 20, timeoutMs: 5000, signal: controller.signal, description: "Job" }),
+      /canceled/,
+    );
+    const checksAtCancel = checks;
+    await new Promise(resolve => setTimeout(resolve, 60));
+    assert.equal(checks, checksAtCancel);
+  });
+});
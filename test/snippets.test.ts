@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { findWebFramework, sourceImportPath, WebProjectLayout } from "../src/frameworks.js";
+import { buildUsageSnippets } from "../src/snippets.js";
+
+describe("usage snippets", () => {
+  it("imports Vite images saved in the source directory", () => {
+    const [usage, css] = buildUsageSnippets({ importPath: "./assets/logo.png", framework: findWebFramework("vite"), alt: "Logo", width: 64, height: 64 });
+    assert.equal(usage.code, `import imageUrl from "./assets/logo.png";\n\n<img src={imageUrl} alt="Logo" width={64} height={64} />`);
+    assert.match(css.code, /url\("\.\/assets\/logo\.png"\)/);
+    assert.equal(css.label, "CSS background-image (from a file directly in src/)");
+  });
+
+  it("builds Vite public asset URLs from the base URL", () => {
+    const [usage] = buildUsageSnippets({ url: "/images/logo.png", framework: findWebFramework("vite"), alt: "Logo" });
+    assert.equal(usage.label, "Vite public asset");
+    assert.match(usage.code, /import\.meta\.env\.BASE_URL\}images\/logo\.png/);
+  });
+
+  it("uses plain public URLs for Remix", () => {
+    const [usage] = buildUsageSnippets({ url: "/images/logo.png", framework: findWebFramework("remix"), alt: "Logo" });
+    assert.equal(usage.label, "Remix <img>");
+    assert.equal(usage.code, `<img src="/images/logo.png" alt="Logo" />`);
+  });
+
+  it("gives import paths relative to the source directory", () => {
+    const root = path.resolve("/projects/site");
+    const layout: WebProjectLayout = {
+      framework: findWebFramework("vite"),
+      detectedFrom: "project_type",
+      publicDir: path.join(root, "public"),
+      publicUrl: "/",
+      assetDir: "images",
+      sourceDir: path.join(root, "src"),
+    };
+    assert.equal(sourceImportPath(layout, path.join(root, "src", "assets", "logo.png")), "./assets/logo.png");
+    assert.equal(sourceImportPath(layout, path.join(root, "public", "images", "logo.png")), undefined);
+  });
+});